@@ -0,0 +1,105 @@
+import { CheckCircle2, AlertCircle, Loader2, RotateCw, X, Eye, Download, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import type { JobResult } from '@shared/schema';
+import type { BatchItem } from '@/hooks/useBatchQueue';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  isProcessing: boolean;
+  onStart: () => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onView: (result: JobResult) => void;
+  onDownloadAll: () => void;
+  onClear: () => void;
+}
+
+function StatusIcon({ status }: { status: BatchItem['status'] }) {
+  switch (status) {
+    case 'succeeded':
+      return <CheckCircle2 className="h-4 w-4 text-green-500" />;
+    case 'failed':
+      return <AlertCircle className="h-4 w-4 text-red-500" />;
+    case 'processing':
+      return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+    default:
+      return <Clock className="h-4 w-4 text-gray-400" />;
+  }
+}
+
+export default function BatchQueue({
+  items,
+  isProcessing,
+  onStart,
+  onRetry,
+  onRemove,
+  onView,
+  onDownloadAll,
+  onClear
+}: BatchQueueProps) {
+  const pendingCount = items.filter((item) => item.status === 'pending').length;
+  const succeededCount = items.filter((item) => item.status === 'succeeded').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">
+          {items.length} {items.length === 1 ? 'image' : 'images'} · {succeededCount} done
+        </h3>
+        <Button variant="ghost" size="sm" onClick={onClear} disabled={isProcessing}>
+          Clear all
+        </Button>
+      </div>
+
+      <ul className="divide-y border rounded-lg max-h-[400px] overflow-y-auto">
+        {items.map((item) => (
+          <li key={item.id} className="flex items-center gap-3 p-3">
+            <StatusIcon status={item.status} />
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="text-sm font-medium truncate">{item.file.name}</p>
+              {item.status === 'processing' && (
+                <Progress value={item.progress} className="h-1.5" />
+              )}
+              {item.status === 'failed' && (
+                <p className="text-xs text-red-500 truncate">{item.error}</p>
+              )}
+            </div>
+            <div className="flex gap-1">
+              {item.status === 'succeeded' && item.result && (
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onView(item.result!)}>
+                  <Eye className="h-4 w-4" />
+                </Button>
+              )}
+              {item.status === 'failed' && (
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onRetry(item.id)}>
+                  <RotateCw className="h-4 w-4" />
+                </Button>
+              )}
+              {item.status !== 'processing' && (
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onRemove(item.id)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-col sm:flex-row gap-2 justify-center">
+        <Button onClick={onStart} disabled={pendingCount === 0 || isProcessing} className="w-full sm:w-auto">
+          {isProcessing ? 'Processing...' : `Remove Background (${pendingCount})`}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={onDownloadAll}
+          disabled={succeededCount === 0}
+          className="w-full sm:w-auto"
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Download all
+        </Button>
+      </div>
+    </div>
+  );
+}
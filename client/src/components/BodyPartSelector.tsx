@@ -0,0 +1,178 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { canvasToPngDataUrl, decodeCutout, type DecodedCutout } from '@/lib/backgroundRemover';
+import { BODY_PART_PRESETS, BODY_PARTS, drawPartOverlay, keepParts, type BodyPartMap } from '@/lib/bodyParts';
+
+interface BodyPartSelectorProps {
+  // The cutout the body parts were found in
+  processedImage: string;
+  parts: BodyPartMap;
+  // Called with the cutout of just the kept parts, or null while all are kept
+  onChange: (partsImage: string | null) => void;
+}
+
+// Longest side the part colours are drawn at
+const OVERLAY_MAX_SIDE = 800;
+
+const ALL_PARTS = BODY_PARTS.map((_, index) => index + 1);
+
+/**
+ * Lists the 24 body parts BodyPix finds, shown as a colour-coded overlay,
+ * and lets them be toggled in or out of the cutout, e.g. keeping just the
+ * head and shoulders for an avatar
+ */
+export default function BodyPartSelector({ processedImage, parts, onChange }: BodyPartSelectorProps) {
+  const [kept, setKept] = useState<Set<number>>(() => new Set(ALL_PARTS));
+  const [showOverlay, setShowOverlay] = useState(true);
+  const [preview, setPreview] = useState(processedImage);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const decodedRef = useRef<Promise<DecodedCutout> | null>(null);
+  const { toast } = useToast();
+
+  // Parts that appear anywhere in the image; the rest can't be chosen
+  const found = useMemo(() => new Set(parts.labels), [parts]);
+
+  // A new cutout starts again with every part kept
+  useEffect(() => {
+    decodedRef.current = null;
+    setKept(new Set(ALL_PARTS));
+    setPreview(processedImage);
+  }, [processedImage, parts]);
+
+  useEffect(() => {
+    const canvas = overlayRef.current;
+    if (!canvas) return;
+    const overlay = drawPartOverlay(parts, OVERLAY_MAX_SIDE);
+    canvas.width = overlay.width;
+    canvas.height = overlay.height;
+    canvas.getContext('2d')?.putImageData(overlay, 0, 0);
+  }, [parts]);
+
+  // Compose the cutout of the kept parts whenever the selection changes
+  useEffect(() => {
+    if (ALL_PARTS.every((part) => kept.has(part))) {
+      setPreview(processedImage);
+      onChange(null);
+      return;
+    }
+
+    let cancelled = false;
+    decodedRef.current ??= decodeCutout(processedImage);
+    decodedRef.current
+      .then(async ({ pixels, profile }) => {
+        if (pixels.width !== parts.width || pixels.height !== parts.height) {
+          throw new Error('The body parts found no longer match the cutout');
+        }
+        const canvas = document.createElement('canvas');
+        canvas.width = pixels.width;
+        canvas.height = pixels.height;
+        const selected = new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height);
+        keepParts(selected.data, parts, kept);
+        canvas.getContext('2d')?.putImageData(selected, 0, 0);
+        return canvasToPngDataUrl(canvas, profile);
+      })
+      .then((partsImage) => {
+        if (cancelled) return;
+        setPreview(partsImage);
+        onChange(partsImage);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        toast({
+          title: 'Could not update body parts',
+          description: error instanceof Error ? error.message : 'Failed to apply the selection',
+          variant: 'destructive'
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kept, parts, processedImage]);
+
+  const toggle = (part: number, included: boolean) => {
+    setKept((prev) => {
+      const next = new Set(prev);
+      if (included) {
+        next.add(part);
+      } else {
+        next.delete(part);
+      }
+      return next;
+    });
+  };
+
+  // Clicking a part on the image toggles it too
+  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor(((e.clientX - bounds.left) / bounds.width) * parts.width);
+    const y = Math.floor(((e.clientY - bounds.top) / bounds.height) * parts.height);
+    if (x < 0 || y < 0 || x >= parts.width || y >= parts.height) return;
+    const part = parts.labels[y * parts.width + x];
+    if (part !== 0) toggle(part, !kept.has(part));
+  };
+
+  const isPreset = (preset: number[]) =>
+    preset.length === kept.size && preset.every((part) => kept.has(part));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {BODY_PART_PRESETS.map((preset) => (
+          <Button
+            key={preset.name}
+            variant={isPreset(preset.parts) ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setKept(new Set(preset.parts))}
+          >
+            {preset.name}
+          </Button>
+        ))}
+
+        <label className="flex items-center gap-2 text-sm ml-auto cursor-pointer">
+          <Switch checked={showOverlay} onCheckedChange={setShowOverlay} />
+          Show part colours
+        </label>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden bg-checkerboard aspect-video h-[300px] sm:h-[400px] md:h-[500px] flex items-center justify-center">
+        <div className="relative cursor-pointer" onClick={handleImageClick}>
+          <img
+            src={preview}
+            alt="Body parts"
+            className="block max-w-full max-h-[300px] sm:max-h-[400px] md:max-h-[500px] pointer-events-none select-none"
+          />
+          <canvas
+            ref={overlayRef}
+            className={`absolute inset-0 w-full h-full opacity-50 pointer-events-none ${showOverlay ? '' : 'hidden'}`}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 max-h-48 overflow-y-auto">
+        {BODY_PARTS.map((part, index) => {
+          const [r, g, b] = part.colour;
+          return (
+            <label
+              key={part.id}
+              className={`flex items-center gap-2 text-sm cursor-pointer ${found.has(index + 1) ? '' : 'opacity-50'}`}
+            >
+              <Checkbox
+                checked={kept.has(index + 1)}
+                onCheckedChange={(checked) => toggle(index + 1, checked === true)}
+              />
+              <span className="h-3 w-3 shrink-0 rounded-sm" style={{ backgroundColor: `rgb(${r}, ${g}, ${b})` }} />
+              <span className="truncate">{part.label}</span>
+            </label>
+          );
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Click a part, or tick it in the list, to keep it or remove it. Parts not found in this image are greyed out. The download keeps only the parts selected.
+      </p>
+    </div>
+  );
+}
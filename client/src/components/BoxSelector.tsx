@@ -0,0 +1,90 @@
+import { useState, useRef } from 'react';
+import type { BoxPrompt } from '@shared/schema';
+
+interface BoxSelectorProps {
+  src: string;
+  box?: BoxPrompt;
+  onChange: (box: BoxPrompt) => void;
+}
+
+// Drags smaller than this share of the image are taken as stray clicks
+const MIN_BOX_SIZE = 0.02;
+
+/**
+ * An image preview that a box can be dragged out on, in coordinates
+ * normalised to the image's size
+ */
+export default function BoxSelector({ src, box, onChange }: BoxSelectorProps) {
+  // The box being dragged out, shown in place of the current one
+  const [draft, setDraft] = useState<BoxPrompt | null>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+
+  const toPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((e.clientX - bounds.left) / bounds.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - bounds.top) / bounds.height, 0), 1)
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Dragging here shouldn't open the file picker around the preview
+    e.stopPropagation();
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = toPoint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = startRef.current;
+    if (!start) return;
+    const point = toPoint(e);
+    setDraft({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y)
+    });
+  };
+
+  const handlePointerUp = () => {
+    startRef.current = null;
+    if (draft && draft.width >= MIN_BOX_SIZE && draft.height >= MIN_BOX_SIZE) {
+      onChange(draft);
+    }
+    setDraft(null);
+  };
+
+  const shown = draft ?? box;
+
+  return (
+    <div
+      className="relative inline-block overflow-hidden rounded-md shadow-sm cursor-crosshair select-none"
+      style={{ touchAction: 'none' }}
+      onClick={(e) => e.stopPropagation()}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <img
+        src={src}
+        alt="Preview"
+        draggable={false}
+        className="block max-w-full h-auto max-h-[400px] pointer-events-none"
+      />
+      {shown && (
+        // The outside of the box is dimmed by the border's spread shadow
+        <div
+          className="absolute border-2 border-primary shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] pointer-events-none"
+          style={{
+            left: `${shown.x * 100}%`,
+            top: `${shown.y * 100}%`,
+            width: `${shown.width * 100}%`,
+            height: `${shown.height * 100}%`
+          }}
+        />
+      )}
+    </div>
+  );
+}
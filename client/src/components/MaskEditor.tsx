@@ -0,0 +1,442 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Brush, Eraser, Undo2, Redo2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { useToast } from '@/hooks/use-toast';
+import { canvasToPngDataUrl } from '@/lib/backgroundRemover';
+import { readIccProfile } from '@/lib/metadata';
+import {
+  applyStroke,
+  readRect,
+  stampDab,
+  stampLine,
+  unionRect,
+  writeRect,
+  type MaskEdit,
+  type MaskRect
+} from '@/lib/maskBrush';
+
+interface MaskEditorProps {
+  originalImage: string;
+  processedImage: string;
+  // Whether the editor is on screen, so keyboard shortcuts only apply there
+  isActive: boolean;
+  // Called with the edited cutout as a PNG data URL, or null while the mask is the model's
+  onChange: (editedImage: string | null) => void;
+}
+
+type BrushMode = 'keep' | 'erase';
+
+// Strokes kept for undo; each only stores the pixels it changed
+const MAX_HISTORY = 50;
+
+// The cutout being edited. Pixel buffers live in a ref rather than state,
+// since they are large and change on every pointer move.
+interface EditableImage {
+  width: number;
+  height: number;
+  // What the canvas shows: the cutout's colours, with the mask as alpha
+  display: ImageData;
+  mask: Uint8Array;
+  initialMask: Uint8Array;
+  // The current stroke's strength per pixel, cleared after each stroke
+  strength: Float32Array;
+  profile?: Uint8Array;
+}
+
+interface Stroke {
+  base: Uint8Array;
+  target: number;
+  last: { x: number; y: number };
+  dirty: MaskRect | null;
+}
+
+/**
+ * Whether the mask differs from the model's. The undo history can't tell:
+ * it drops its oldest strokes, and edits can cancel each other out.
+ */
+function isEdited(image: EditableImage): boolean {
+  for (let i = 0; i < image.mask.length; i++) {
+    if (image.mask[i] !== image.initialMask[i]) return true;
+  }
+  return false;
+}
+
+/**
+ * Decodes the cutout for editing. Pixels the model removed have lost their
+ * colour in the cutout, so they are filled in from the original upload,
+ * which lets the keep brush bring them back.
+ */
+async function loadEditableImage(originalImage: string, processedImage: string): Promise<EditableImage> {
+  const processedBlob = await (await fetch(processedImage)).blob();
+  const profile = await readIccProfile(new Uint8Array(await processedBlob.arrayBuffer()));
+  const colorSpaceConversion = profile ? 'none' : 'default';
+  const processed = await createImageBitmap(processedBlob, { colorSpaceConversion });
+
+  const { width, height } = processed;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  ctx.drawImage(processed, 0, 0);
+  processed.close();
+  const display = ctx.getImageData(0, 0, width, height);
+
+  // The original may be in a format the browser can't decode, e.g. HEIC
+  let original: ImageData | undefined;
+  try {
+    const originalBlob = await (await fetch(originalImage)).blob();
+    const bitmap = await createImageBitmap(originalBlob, { imageOrientation: 'from-image', colorSpaceConversion });
+    if (bitmap.width === width && bitmap.height === height) {
+      ctx.clearRect(0, 0, width, height);
+      ctx.drawImage(bitmap, 0, 0);
+      original = ctx.getImageData(0, 0, width, height);
+    }
+    bitmap.close();
+  } catch (error) {
+    console.warn('Could not decode the original image for mask editing:', error);
+  }
+
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = display.data[i * 4 + 3];
+    if (original && mask[i] === 0) {
+      display.data[i * 4] = original.data[i * 4];
+      display.data[i * 4 + 1] = original.data[i * 4 + 1];
+      display.data[i * 4 + 2] = original.data[i * 4 + 2];
+    }
+  }
+
+  return {
+    width,
+    height,
+    display,
+    mask,
+    initialMask: mask.slice(),
+    strength: new Float32Array(width * height),
+    profile
+  };
+}
+
+export default function MaskEditor({ originalImage, processedImage, isActive, onChange }: MaskEditorProps) {
+  const [mode, setMode] = useState<BrushMode>('erase');
+  const [brushSize, setBrushSize] = useState(40);
+  const [hardness, setHardness] = useState(60);
+  const [isReady, setIsReady] = useState(false);
+  const [history, setHistory] = useState({ canUndo: false, canRedo: false });
+  // Brush outline position, relative to the canvas container
+  const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null);
+  const { toast } = useToast();
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<EditableImage | null>(null);
+  const strokeRef = useRef<Stroke | null>(null);
+  const undoRef = useRef<MaskEdit[]>([]);
+  const redoRef = useRef<MaskEdit[]>([]);
+  // Bumped on every commit, so a slow encode can't overwrite a newer one
+  const commitRef = useRef(0);
+
+  const updateHistory = () => {
+    setHistory({ canUndo: undoRef.current.length > 0, canRedo: redoRef.current.length > 0 });
+  };
+
+  // Copy part of the mask into the displayed alpha channel and redraw it
+  const render = (rect: MaskRect) => {
+    const image = imageRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!image || !ctx) return;
+
+    const { display, mask, width } = image;
+    for (let y = rect.y; y < rect.y + rect.height; y++) {
+      for (let x = rect.x; x < rect.x + rect.width; x++) {
+        const i = y * width + x;
+        display.data[i * 4 + 3] = mask[i];
+      }
+    }
+    ctx.putImageData(display, 0, 0, rect.x, rect.y, rect.width, rect.height);
+  };
+
+  // Hand the edited cutout to the result view, or null when the mask is unedited
+  const commit = async () => {
+    const image = imageRef.current;
+    const canvas = canvasRef.current;
+    if (!image || !canvas) return;
+
+    const id = ++commitRef.current;
+    if (!isEdited(image)) {
+      onChange(null);
+      return;
+    }
+    try {
+      const editedImage = await canvasToPngDataUrl(canvas, image.profile);
+      if (id === commitRef.current) onChange(editedImage);
+    } catch (error) {
+      toast({
+        title: 'Could not apply edit',
+        description: error instanceof Error ? error.message : 'Failed to encode the edited image',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const record = (edit: MaskEdit) => {
+    undoRef.current.push(edit);
+    if (undoRef.current.length > MAX_HISTORY) {
+      undoRef.current.shift();
+    }
+    redoRef.current = [];
+    updateHistory();
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsReady(false);
+    imageRef.current = null;
+    undoRef.current = [];
+    redoRef.current = [];
+    updateHistory();
+
+    loadEditableImage(originalImage, processedImage)
+      .then((image) => {
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+        canvas.width = image.width;
+        canvas.height = image.height;
+        canvas.getContext('2d')?.putImageData(image.display, 0, 0);
+        imageRef.current = image;
+        setIsReady(true);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        toast({
+          title: 'Mask editor unavailable',
+          description: error instanceof Error ? error.message : 'Failed to load the image for editing',
+          variant: 'destructive'
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [originalImage, processedImage]);
+
+  // Pointer position in image pixels, and the brush radius at the current zoom
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const bounds = canvas.getBoundingClientRect();
+    const scale = canvas.width / bounds.width;
+    return {
+      x: (e.clientX - bounds.left) * scale,
+      y: (e.clientY - bounds.top) * scale,
+      radius: (brushSize / 2) * scale
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const image = imageRef.current;
+    if (!image || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    const { x, y, radius } = toImagePoint(e);
+    const stroke: Stroke = {
+      base: image.mask.slice(),
+      target: mode === 'keep' ? 255 : 0,
+      last: { x, y },
+      dirty: null
+    };
+    strokeRef.current = stroke;
+
+    const rect = stampDab(image.strength, image.width, image.height, x, y, radius, hardness / 100);
+    if (rect) {
+      stroke.dirty = rect;
+      applyStroke(image.mask, stroke.base, image.strength, image.width, stroke.target, rect);
+      render(rect);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const container = e.currentTarget.parentElement?.getBoundingClientRect();
+    if (container) {
+      setCursor({ x: e.clientX - container.left, y: e.clientY - container.top });
+    }
+
+    const image = imageRef.current;
+    const stroke = strokeRef.current;
+    if (!image || !stroke) return;
+
+    const { x, y, radius } = toImagePoint(e);
+    const rect = stampLine(image.strength, image.width, image.height, stroke.last, { x, y }, radius, hardness / 100);
+    stroke.last = { x, y };
+    if (rect) {
+      stroke.dirty = unionRect(stroke.dirty, rect);
+      applyStroke(image.mask, stroke.base, image.strength, image.width, stroke.target, rect);
+      render(rect);
+    }
+  };
+
+  const handlePointerUp = () => {
+    const image = imageRef.current;
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    if (!image || !stroke?.dirty) return;
+
+    const rect = stroke.dirty;
+    record({
+      rect,
+      before: readRect(stroke.base, image.width, rect),
+      after: readRect(image.mask, image.width, rect)
+    });
+    for (let y = rect.y; y < rect.y + rect.height; y++) {
+      image.strength.fill(0, y * image.width + rect.x, y * image.width + rect.x + rect.width);
+    }
+    commit();
+  };
+
+  const undo = useCallback(() => {
+    const image = imageRef.current;
+    const edit = undoRef.current.pop();
+    if (!image || !edit) return;
+
+    writeRect(image.mask, image.width, edit.rect, edit.before);
+    render(edit.rect);
+    redoRef.current.push(edit);
+    updateHistory();
+    commit();
+  }, [onChange]);
+
+  const redo = useCallback(() => {
+    const image = imageRef.current;
+    const edit = redoRef.current.pop();
+    if (!image || !edit) return;
+
+    writeRect(image.mask, image.width, edit.rect, edit.after);
+    render(edit.rect);
+    undoRef.current.push(edit);
+    updateHistory();
+    commit();
+  }, [onChange]);
+
+  // Go back to the model's mask, as one step that can itself be undone
+  const resetMask = () => {
+    const image = imageRef.current;
+    if (!image) return;
+
+    const rect = { x: 0, y: 0, width: image.width, height: image.height };
+    record({ rect, before: image.mask.slice(), after: image.initialMask.slice() });
+    image.mask.set(image.initialMask);
+    render(rect);
+    commit();
+  };
+
+  // Ctrl/Cmd+Z to undo, with Shift (or Ctrl+Y) to redo
+  useEffect(() => {
+    if (!isActive) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isActive, undo, redo]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant={mode === 'keep' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setMode('keep')}
+        >
+          <Brush className="mr-2 h-4 w-4" />
+          Keep
+        </Button>
+        <Button
+          variant={mode === 'erase' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setMode('erase')}
+        >
+          <Eraser className="mr-2 h-4 w-4" />
+          Erase
+        </Button>
+
+        <div className="flex items-center gap-2 min-w-[140px] flex-1 sm:flex-none">
+          <span className="text-xs text-muted-foreground whitespace-nowrap">Size {brushSize}px</span>
+          <Slider
+            value={[brushSize]}
+            min={4}
+            max={200}
+            step={1}
+            onValueChange={([value]) => setBrushSize(value)}
+            className="w-24"
+          />
+        </div>
+        <div className="flex items-center gap-2 min-w-[140px] flex-1 sm:flex-none">
+          <span className="text-xs text-muted-foreground whitespace-nowrap">Hardness {hardness}%</span>
+          <Slider
+            value={[hardness]}
+            min={0}
+            max={100}
+            step={5}
+            onValueChange={([value]) => setHardness(value)}
+            className="w-24"
+          />
+        </div>
+
+        <div className="flex gap-2 ml-auto">
+          <Button variant="outline" size="icon" onClick={undo} disabled={!history.canUndo} className="h-8 w-8" title="Undo">
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={redo} disabled={!history.canRedo} className="h-8 w-8" title="Redo">
+            <Redo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={resetMask} disabled={!isReady}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden relative bg-checkerboard aspect-video h-[300px] sm:h-[400px] md:h-[500px] flex items-center justify-center">
+        <canvas
+          ref={canvasRef}
+          className="max-w-full max-h-full"
+          style={{ touchAction: 'none', cursor: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={() => setCursor(null)}
+        />
+        {cursor && (
+          <div
+            className="absolute rounded-full border border-white pointer-events-none shadow-[0_0_0_1px_rgba(0,0,0,0.6)]"
+            style={{
+              width: brushSize,
+              height: brushSize,
+              left: cursor.x - brushSize / 2,
+              top: cursor.y - brushSize / 2
+            }}
+          />
+        )}
+        {!isReady && (
+          <p className="absolute text-sm text-gray-500 dark:text-gray-400">Preparing editor...</p>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Paint with Keep to bring back parts of the subject, or Erase to remove leftovers. Edits are used when you download.
+      </p>
+    </div>
+  );
+}
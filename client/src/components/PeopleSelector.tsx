@@ -0,0 +1,166 @@
+import { useState, useRef, useEffect } from 'react';
+import { Check, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { canvasToPngDataUrl, decodeCutout, type DecodedCutout } from '@/lib/backgroundRemover';
+import { drawOutlines, keepPeople, PERSON_COLOURS, type PersonInstances } from '@/lib/people';
+
+interface PeopleSelectorProps {
+  // The cutout the people were found in
+  processedImage: string;
+  people: PersonInstances;
+  // Called with the cutout of just the kept people, or null while all are kept
+  onChange: (peopleImage: string | null) => void;
+}
+
+// Longest side the outlines are drawn at, so they stay visible when shown small
+const OUTLINE_MAX_SIDE = 800;
+
+function allPeople(people: PersonInstances): Set<number> {
+  return new Set(Array.from({ length: people.count }, (_, i) => i + 1));
+}
+
+/**
+ * Lists the people found in a cutout, each outlined in their own colour, and
+ * lets them be toggled in or out of the cutout
+ */
+export default function PeopleSelector({ processedImage, people, onChange }: PeopleSelectorProps) {
+  const [kept, setKept] = useState<Set<number>>(() => allPeople(people));
+  const [preview, setPreview] = useState(processedImage);
+  const outlineRef = useRef<HTMLCanvasElement>(null);
+  const decodedRef = useRef<Promise<DecodedCutout> | null>(null);
+  const { toast } = useToast();
+
+  // A new cutout brings new people, all kept to begin with
+  useEffect(() => {
+    decodedRef.current = null;
+    setKept(allPeople(people));
+    setPreview(processedImage);
+  }, [processedImage, people]);
+
+  useEffect(() => {
+    const canvas = outlineRef.current;
+    if (!canvas) return;
+    const outlines = drawOutlines(people, OUTLINE_MAX_SIDE);
+    canvas.width = outlines.width;
+    canvas.height = outlines.height;
+    canvas.getContext('2d')?.putImageData(outlines, 0, 0);
+  }, [people]);
+
+  // Compose the cutout of the kept people whenever the selection changes
+  useEffect(() => {
+    if (kept.size === people.count) {
+      setPreview(processedImage);
+      onChange(null);
+      return;
+    }
+
+    let cancelled = false;
+    decodedRef.current ??= decodeCutout(processedImage);
+    decodedRef.current
+      .then(async ({ pixels, profile }) => {
+        if (pixels.width !== people.width || pixels.height !== people.height) {
+          throw new Error('The people found no longer match the cutout');
+        }
+        const canvas = document.createElement('canvas');
+        canvas.width = pixels.width;
+        canvas.height = pixels.height;
+        const selected = new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height);
+        keepPeople(selected.data, people, kept);
+        canvas.getContext('2d')?.putImageData(selected, 0, 0);
+        return canvasToPngDataUrl(canvas, profile);
+      })
+      .then((peopleImage) => {
+        if (cancelled) return;
+        setPreview(peopleImage);
+        onChange(peopleImage);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        toast({
+          title: 'Could not update people',
+          description: error instanceof Error ? error.message : 'Failed to apply the selection',
+          variant: 'destructive'
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kept, people, processedImage]);
+
+  const toggle = (person: number) => {
+    setKept((prev) => {
+      const next = new Set(prev);
+      if (next.has(person)) {
+        next.delete(person);
+      } else {
+        next.add(person);
+      }
+      return next;
+    });
+  };
+
+  // Clicking a person on the image toggles them too
+  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor(((e.clientX - bounds.left) / bounds.width) * people.width);
+    const y = Math.floor(((e.clientY - bounds.top) / bounds.height) * people.height);
+    if (x < 0 || y < 0 || x >= people.width || y >= people.height) return;
+    const person = people.labels[y * people.width + x];
+    if (person !== 0) toggle(person);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {Array.from({ length: people.count }, (_, i) => i + 1).map((person) => {
+          const [r, g, b] = PERSON_COLOURS[(person - 1) % PERSON_COLOURS.length];
+          return (
+            <Button
+              key={person}
+              variant={kept.has(person) ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => toggle(person)}
+            >
+              <span
+                className="mr-2 h-3 w-3 rounded-full border border-white"
+                style={{ backgroundColor: `rgb(${r}, ${g}, ${b})` }}
+              />
+              Person {person}
+              {kept.has(person) && <Check className="ml-2 h-4 w-4" />}
+            </Button>
+          );
+        })}
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto"
+          onClick={() => setKept(allPeople(people))}
+          disabled={kept.size === people.count}
+        >
+          <Users className="mr-2 h-4 w-4" />
+          Keep everyone
+        </Button>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden bg-checkerboard aspect-video h-[300px] sm:h-[400px] md:h-[500px] flex items-center justify-center">
+        <div className="relative cursor-pointer" onClick={handleImageClick}>
+          <img
+            src={preview}
+            alt="People"
+            className="block max-w-full max-h-[300px] sm:max-h-[400px] md:max-h-[500px] pointer-events-none select-none"
+          />
+          <canvas
+            ref={outlineRef}
+            className="absolute inset-0 w-full h-full pointer-events-none"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Click a person, or their button, to remove them from the cutout or bring them back. The download keeps only the people selected.
+      </p>
+    </div>
+  );
+}
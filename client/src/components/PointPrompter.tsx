@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CircleMinus, CirclePlus, Loader2, Trash2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { usePointPrompts } from '@/hooks/usePointPrompts';
+import { MAX_POINT_PROMPTS, type BoxPrompt, type PointLabel, type Settings } from '@shared/schema';
+import { removeBackground, removalSettings, type Cutout } from '@/lib/backgroundRemover';
+import { followJob, submitRefineJob } from '@/lib/jobs';
+
+interface PointPrompterProps {
+  originalImage: string;
+  // The unprompted cutout, which also decides whether to refine in the browser or on the server
+  processedImage: string;
+  // The cutout currently shown, prompted or not
+  currentImage: string;
+  // The box the image was first processed with, kept when refining in the browser
+  box?: BoxPrompt;
+  // Called with each refined cutout, or null once every point is removed
+  onChange: (refined: Cutout | null) => void;
+}
+
+const SERVER_IMAGE_PREFIX = '/api/images/processed/';
+
+// Wait for a pause in clicking before segmenting again
+const REFINE_DELAY = 400;
+
+export default function PointPrompter({ originalImage, processedImage, currentImage, box, onChange }: PointPrompterProps) {
+  const [label, setLabel] = useState<PointLabel>('foreground');
+  const [isRefining, setIsRefining] = useState(false);
+  const { points, add, removeLast, clear } = usePointPrompts(originalImage);
+  const { toast } = useToast();
+
+  const { data: settings } = useQuery<Settings>({
+    queryKey: ["/api/settings"],
+  });
+
+  // Apply the points again whenever they change, abandoning any run still going.
+  // The models' output is kept from the first run, in the worker or on the server.
+  useEffect(() => {
+    if (points.length === 0) {
+      setIsRefining(false);
+      onChange(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsRefining(true);
+      try {
+        let refined: Cutout;
+        if (processedImage.startsWith(SERVER_IMAGE_PREFIX)) {
+          const job = await submitRefineJob(processedImage, { points });
+          refined = { image: (await followJob(job.id, () => {}, controller.signal)).processed };
+        } else {
+          refined = await removeBackground(originalImage, removalSettings(settings, { points, box }), undefined, controller.signal);
+        }
+        if (!controller.signal.aborted) {
+          onChange(refined);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        toast({
+          title: 'Refinement failed',
+          description: error instanceof Error ? error.message : 'Failed to apply the points',
+          variant: 'destructive'
+        });
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsRefining(false);
+        }
+      }
+    }, REFINE_DELAY);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [points, originalImage, processedImage, box, settings]);
+
+  // Left click places a point with the selected label; right click the opposite one
+  const placePoint = (e: React.MouseEvent<HTMLDivElement>, pointLabel: PointLabel) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    add({
+      x: Math.min(Math.max((e.clientX - bounds.left) / bounds.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - bounds.top) / bounds.height, 0), 1),
+      label: pointLabel
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant={label === 'foreground' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setLabel('foreground')}
+        >
+          <CirclePlus className="mr-2 h-4 w-4" />
+          Subject
+        </Button>
+        <Button
+          variant={label === 'background' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setLabel('background')}
+        >
+          <CircleMinus className="mr-2 h-4 w-4" />
+          Background
+        </Button>
+
+        {isRefining && (
+          <span className="flex items-center text-xs text-muted-foreground">
+            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+            Updating cutout...
+          </span>
+        )}
+
+        <div className="flex gap-2 ml-auto">
+          <Button variant="outline" size="sm" onClick={removeLast} disabled={points.length === 0}>
+            <Undo2 className="mr-2 h-4 w-4" />
+            Undo point
+          </Button>
+          <Button variant="outline" size="sm" onClick={clear} disabled={points.length === 0}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden bg-checkerboard aspect-video h-[300px] sm:h-[400px] md:h-[500px] flex items-center justify-center">
+        <div
+          className="relative cursor-crosshair"
+          onClick={(e) => placePoint(e, label)}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            placePoint(e, label === 'foreground' ? 'background' : 'foreground');
+          }}
+        >
+          {/* The original shows faintly behind the cutout, so removed areas can be clicked too */}
+          <img
+            src={originalImage}
+            alt=""
+            className="absolute inset-0 w-full h-full opacity-30 pointer-events-none select-none"
+          />
+          <img
+            src={currentImage}
+            alt="Cutout"
+            className="relative block max-w-full max-h-[300px] sm:max-h-[400px] md:max-h-[500px] pointer-events-none select-none"
+          />
+          {points.map((point, index) => (
+            <span
+              key={index}
+              className={`absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow pointer-events-none ${point.label === 'foreground' ? 'bg-green-500' : 'bg-red-500'}`}
+              style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+            />
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Click parts of the subject the cutout missed, or switch to Background and click leftovers to remove. Right click places the other kind of point. Up to {MAX_POINT_PROMPTS} points.
+      </p>
+    </div>
+  );
+}
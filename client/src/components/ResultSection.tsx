@@ -1,31 +1,116 @@
-import { useState, useRef, useEffect } from 'react';
-import { ImageDown, Repeat, ZoomIn, ZoomOut, MoveHorizontal, Undo } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { ImageDown, Repeat, ZoomIn, ZoomOut, MoveHorizontal, Undo, FileArchive } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useMutation, useQuery } from '@tanstack/react-query';
-import { downloadOptionsSchema, type DownloadOptions, type ImageFormat, type ImageQuality, type Settings } from '@shared/schema';
+import { downloadOptionsSchema, imageFormats, type ArchiveRequest, type BoxPrompt, type ColorProfileMode, type DownloadOptions, type ImageFormat, type ImageQuality, type MetadataPolicy, type Settings } from '@shared/schema';
+import { readIccDescription } from '@shared/icc';
 import { useToast } from '@/hooks/use-toast';
 import ComparisonSlider from './ComparisonSlider';
+import BodyPartSelector from './BodyPartSelector';
+import MaskEditor from './MaskEditor';
+import PeopleSelector from './PeopleSelector';
+import PointPrompter from './PointPrompter';
 import { apiRequest } from '@/lib/queryClient';
-import { downloadImage } from '@/lib/backgroundRemover';
+import { downloadImage, type Cutout } from '@/lib/backgroundRemover';
+import { exportImage, formatFileSize, UnsupportedFormatError } from '@/lib/imageExport';
+import { readIccProfile } from '@/lib/metadata';
+import type { BodyPartMap } from '@/lib/bodyParts';
+import type { PersonInstances } from '@/lib/people';
+
+// A server-processed image that can be included in a ZIP export
+export interface ArchiveItem {
+  name: string;
+  processed: string;
+}
 
 interface ResultSectionProps {
   originalImage: string;
   processedImage: string;
+  // The box around the subject the image was processed with, if any
+  box?: BoxPrompt;
+  // The people told apart in the cutout, when the model can do that
+  people?: PersonInstances;
+  // The body parts found in the cutout, when the model can do that
+  parts?: BodyPartMap;
+  archiveItems?: ArchiveItem[];
   onReset: () => void;
 }
 
+const SERVER_IMAGE_PREFIX = '/api/images/processed/';
+
+const metadataOptions: { value: MetadataPolicy; label: string }[] = [
+  { value: 'strip', label: 'Strip all' },
+  { value: 'copyright', label: 'Copyright only' },
+  { value: 'all', label: 'Keep all' },
+];
+
+const colorProfileOptions: { value: ColorProfileMode; label: string }[] = [
+  { value: 'srgb', label: 'Convert to sRGB' },
+  { value: 'preserve', label: 'Keep original' },
+];
+
 export default function ResultSection({ 
   originalImage, 
   processedImage, 
+  box,
+  people,
+  parts,
+  archiveItems = [],
   onReset 
 }: ResultSectionProps) {
   const [activeTab, setActiveTab] = useState('processed');
   const [format, setFormat] = useState<ImageFormat>('png');
   const [quality, setQuality] = useState<ImageQuality>('high');
+  const [metadata, setMetadata] = useState<MetadataPolicy>('strip');
+  const [colorProfile, setColorProfile] = useState<ColorProfileMode>('srgb');
   const { toast } = useToast();
   
+  // The cutout segmented again with point prompts, null while there are none
+  const [refined, setRefined] = useState<Cutout | null>(null);
+  const baseImage = refined?.image ?? processedImage;
+  const basePeople = refined ? refined.people : people;
+  const baseParts = refined ? refined.parts : parts;
+  useEffect(() => {
+    setRefined(null);
+  }, [processedImage]);
+  
+  // The cutout of just the people kept, null while everyone is
+  const [peopleImage, setPeopleImage] = useState<string | null>(null);
+  const selectedImage = peopleImage ?? baseImage;
+  useEffect(() => {
+    setPeopleImage(null);
+  }, [baseImage]);
+  
+  // The cutout of just the body parts kept, null while all are.
+  // Parts are chosen within the people kept.
+  const [partsImage, setPartsImage] = useState<string | null>(null);
+  const bodyImage = partsImage ?? selectedImage;
+  useEffect(() => {
+    setPartsImage(null);
+  }, [selectedImage]);
+  
+  // The cutout with brush edits from the mask editor, null when unedited.
+  // Edits are made on top of the refined cutout and the people and parts
+  // kept, so changing any of them drops them.
+  const [editedImage, setEditedImage] = useState<string | null>(null);
+  const currentImage = editedImage ?? bodyImage;
+  useEffect(() => {
+    setEditedImage(null);
+  }, [bodyImage]);
+  
+  // Choosing people only makes sense with more than one of them
+  const showPeople = basePeople !== undefined && basePeople.count > 1;
+  const showParts = useMemo(() => baseParts !== undefined && baseParts.labels.some((part) => part !== 0), [baseParts]);
+  useEffect(() => {
+    if ((!showPeople && activeTab === 'people') || (!showParts && activeTab === 'parts')) {
+      setActiveTab('processed');
+    }
+  }, [showPeople, showParts, activeTab]);
+  const tabCount = 5 + (showPeople ? 1 : 0) + (showParts ? 1 : 0);
+  
   // Image manipulation state
   const [scale, setScale] = useState(1);
   const [position, setPosition] = useState({ x: 0, y: 0 });
@@ -34,46 +119,81 @@ export default function ResultSection({
   const imageRef = useRef<HTMLImageElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
+  // Only images stored on the server can be zipped; fall back to the current one
+  const zipItems = archiveItems.length > 0
+    ? archiveItems
+    : baseImage.startsWith(SERVER_IMAGE_PREFIX)
+      ? [{ name: 'background_removed', processed: baseImage }]
+      : [];
+  const [deselected, setDeselected] = useState<Set<string>>(new Set());
+  const selectedZipItems = zipItems.filter((item) => !deselected.has(item.processed));
+  
   // Fetch settings to check if move/resize is enabled
   const { data: settings } = useQuery<Settings>({
     queryKey: ["/api/settings"],
   });
   
+  // Name of the ICC profile the cutout carries over from the original
+  // undefined while reading, null when the image has no profile
+  const [profileName, setProfileName] = useState<string | null | undefined>(undefined);
+  useEffect(() => {
+    let cancelled = false;
+    setProfileName(undefined);
+    
+    fetch(baseImage)
+      .then((response) => response.arrayBuffer())
+      .then((buffer) => readIccProfile(new Uint8Array(buffer)))
+      .then((profile) => !cancelled && setProfileName(profile ? readIccDescription(profile) ?? 'Embedded profile' : null))
+      .catch(() => !cancelled && setProfileName(null));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [baseImage]);
+  
+  // Estimate the download size by encoding with the current options
+  // undefined while estimating, null when this browser can't encode the format
+  const [estimatedSize, setEstimatedSize] = useState<number | null | undefined>(undefined);
+  useEffect(() => {
+    let cancelled = false;
+    setEstimatedSize(undefined);
+    
+    const timeout = setTimeout(() => {
+      exportImage(currentImage, settings, { format, quality, metadata: 'strip', colorProfile })
+        .then((blob) => !cancelled && setEstimatedSize(blob.size))
+        .catch(() => !cancelled && setEstimatedSize(null));
+    }, 300);
+    
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [currentImage, settings, format, quality, colorProfile]);
+  
   const downloadMutation = useMutation({
     mutationFn: async (options: DownloadOptions) => {
       try {
-        const canvas = document.createElement('canvas');
-        const img = new Image();
-        
-        img.onload = () => {
-          canvas.width = img.width;
-          canvas.height = img.height;
-          const ctx = canvas.getContext('2d');
-          
-          if (ctx) {
-            // Draw background first if not transparent
-            if (settings?.backgroundType === 'color') {
-              ctx.fillStyle = settings.backgroundColor;
-              ctx.fillRect(0, 0, canvas.width, canvas.height);
-            } else if (settings?.backgroundType === 'image' && settings.backgroundImage) {
-              const bgImg = new Image();
-              bgImg.src = settings.backgroundImage;
-              ctx.drawImage(bgImg, 0, 0, canvas.width, canvas.height);
-            }
-            
-            // Draw the processed image on top
-            ctx.drawImage(img, 0, 0);
-            
-            // Convert to desired format and download
-            const dataUrl = canvas.toDataURL(`image/${options.format}`);
-            const link = document.createElement('a');
-            link.download = `background_removed.${options.format}`;
-            link.href = dataUrl;
-            link.click();
+        let blob: Blob;
+        try {
+          blob = await exportImage(currentImage, settings, options, originalImage);
+        } catch (error) {
+          // Let the server encode formats the browser can't, when it has the image.
+          // The server copy doesn't have the brush edits, so not once the mask is edited.
+          if (!(error instanceof UnsupportedFormatError) || editedImage || !baseImage.startsWith(SERVER_IMAGE_PREFIX)) {
+            throw error;
           }
-        };
+          const response = await apiRequest<Response>({
+            url: '/api/download',
+            method: 'POST',
+            body: { filepath: baseImage, options },
+            on401: 'throw'
+          });
+          blob = await response.blob();
+        }
         
-        img.src = processedImage;
+        const url = URL.createObjectURL(blob);
+        downloadImage(url, 'background_removed', options.format);
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
         return { success: true };
       } catch (error) {
         console.error('Error downloading image:', error);
@@ -95,6 +215,50 @@ export default function ResultSection({
     }
   });
   
+  const archiveMutation = useMutation({
+    mutationFn: async (request: ArchiveRequest) => {
+      const response = await apiRequest<Response>({
+        url: '/api/download/archive',
+        method: 'POST',
+        body: request,
+        on401: 'throw'
+      });
+      
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.download = 'background_removed.zip';
+      link.href = url;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Archive downloaded',
+        description: 'Your images have been downloaded as a ZIP file.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Download failed',
+        description: error instanceof Error ? error.message : 'Failed to download archive',
+        variant: 'destructive'
+      });
+    }
+  });
+  
+  // Toggle whether an image is included in the ZIP export
+  const toggleZipItem = (processed: string, included: boolean) => {
+    setDeselected(prev => {
+      const next = new Set(prev);
+      if (included) {
+        next.delete(processed);
+      } else {
+        next.add(processed);
+      }
+      return next;
+    });
+  };
+  
   // Reset image position and scale
   const resetTransform = () => {
     setScale(1);
@@ -177,9 +341,25 @@ export default function ResultSection({
     };
   }, [isDragging, position, dragStart, settings?.allowMove]);
   
+  const handleDownloadArchive = () => {
+    try {
+      const options = downloadOptionsSchema.parse({ format, quality, metadata, colorProfile });
+      archiveMutation.mutate({
+        files: selectedZipItems.map((item) => ({ filepath: item.processed, name: item.name })),
+        options
+      });
+    } catch (error) {
+      toast({
+        title: 'Invalid download options',
+        description: 'Please select valid download options.',
+        variant: 'destructive'
+      });
+    }
+  };
+  
   const handleDownload = () => {
     try {
-      const options = downloadOptionsSchema.parse({ format, quality });
+      const options = downloadOptionsSchema.parse({ format, quality, metadata, colorProfile });
       downloadMutation.mutate(options);
     } catch (error) {
       toast({
@@ -207,15 +387,19 @@ export default function ResultSection({
       </div>
       
       <Tabs defaultValue="comparison" value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className={`grid w-full ${tabCount === 7 ? 'grid-cols-7' : tabCount === 6 ? 'grid-cols-6' : 'grid-cols-5'}`}>
           <TabsTrigger value="comparison">Comparison</TabsTrigger>
           <TabsTrigger value="original">Original</TabsTrigger>
           <TabsTrigger value="processed">Processed</TabsTrigger>
+          <TabsTrigger value="refine">Refine</TabsTrigger>
+          {showPeople && <TabsTrigger value="people">People</TabsTrigger>}
+          {showParts && <TabsTrigger value="parts">Body Parts</TabsTrigger>}
+          <TabsTrigger value="edit">Edit Mask</TabsTrigger>
         </TabsList>
         
         <TabsContent value="comparison" className="mt-4">
           <div className="border rounded-lg overflow-hidden bg-gray-50 dark:bg-gray-900 aspect-video h-[300px] sm:h-[400px] md:h-[500px]">
-            <ComparisonSlider beforeImage={originalImage} afterImage={processedImage} />
+            <ComparisonSlider beforeImage={originalImage} afterImage={currentImage} />
           </div>
         </TabsContent>
         
@@ -247,7 +431,7 @@ export default function ResultSection({
           >
             <img 
               ref={imageRef}
-              src={processedImage} 
+              src={currentImage} 
               alt="Processed" 
               className="max-w-full max-h-full object-contain transition-transform"
               style={{
@@ -329,6 +513,47 @@ export default function ResultSection({
             )}
           </div>
         </TabsContent>
+        
+        {/* Kept mounted so a refinement in progress carries on in other tabs */}
+        <TabsContent value="refine" forceMount className="mt-4 data-[state=inactive]:hidden">
+          <PointPrompter
+            originalImage={originalImage}
+            processedImage={processedImage}
+            currentImage={baseImage}
+            box={box}
+            onChange={setRefined}
+          />
+        </TabsContent>
+        
+        {showPeople && (
+          <TabsContent value="people" forceMount className="mt-4 data-[state=inactive]:hidden">
+            <PeopleSelector
+              processedImage={baseImage}
+              people={basePeople}
+              onChange={setPeopleImage}
+            />
+          </TabsContent>
+        )}
+        
+        {showParts && baseParts && (
+          <TabsContent value="parts" forceMount className="mt-4 data-[state=inactive]:hidden">
+            <BodyPartSelector
+              processedImage={selectedImage}
+              parts={baseParts}
+              onChange={setPartsImage}
+            />
+          </TabsContent>
+        )}
+        
+        {/* Kept mounted so the edit history survives switching tabs */}
+        <TabsContent value="edit" forceMount className="mt-4 data-[state=inactive]:hidden">
+          <MaskEditor
+            originalImage={originalImage}
+            processedImage={bodyImage}
+            isActive={activeTab === 'edit'}
+            onChange={setEditedImage}
+          />
+        </TabsContent>
       </Tabs>
       
       <div className="border rounded-lg p-4 bg-background/50 backdrop-blur-sm">
@@ -337,22 +562,17 @@ export default function ResultSection({
           <div className="flex-1 space-y-2">
             <h4 className="text-sm font-medium text-muted-foreground">Format</h4>
             <div className="flex flex-wrap gap-2">
-              <Button 
-                variant={format === 'png' ? 'default' : 'outline'} 
-                size="sm"
-                onClick={() => setFormat('png')}
-                className="flex-1 sm:flex-none"
-              >
-                PNG
-              </Button>
-              <Button 
-                variant={format === 'jpg' ? 'default' : 'outline'} 
-                size="sm"
-                onClick={() => setFormat('jpg')}
-                className="flex-1 sm:flex-none"
-              >
-                JPG
-              </Button>
+              {imageFormats.map((option) => (
+                <Button 
+                  key={option}
+                  variant={format === option ? 'default' : 'outline'} 
+                  size="sm"
+                  onClick={() => setFormat(option)}
+                  className="flex-1 sm:flex-none"
+                >
+                  {option.toUpperCase()}
+                </Button>
+              ))}
             </div>
           </div>
           
@@ -385,6 +605,48 @@ export default function ResultSection({
               </Button>
             </div>
           </div>
+          
+          <div className="flex-1 space-y-2">
+            <h4 className="text-sm font-medium text-muted-foreground">Metadata</h4>
+            <div className="flex flex-wrap gap-2">
+              {metadataOptions.map((option) => (
+                <Button 
+                  key={option.value}
+                  variant={metadata === option.value ? 'default' : 'outline'} 
+                  size="sm"
+                  onClick={() => setMetadata(option.value)}
+                  className="flex-1 sm:flex-none"
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          
+          <div className="flex-1 space-y-2">
+            <h4 className="text-sm font-medium text-muted-foreground">Colour Profile</h4>
+            <div className="flex flex-wrap gap-2">
+              {colorProfileOptions.map((option) => (
+                <Button 
+                  key={option.value}
+                  variant={colorProfile === option.value ? 'default' : 'outline'} 
+                  size="sm"
+                  onClick={() => setColorProfile(option.value)}
+                  disabled={!profileName}
+                  className="flex-1 sm:flex-none"
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {profileName === undefined
+                ? 'Checking colour profile...'
+                : profileName === null
+                  ? 'No embedded profile (sRGB)'
+                  : `Embedded profile: ${profileName}`}
+            </p>
+          </div>
         </div>
         
         <div className="mt-4 pt-4 border-t">
@@ -396,7 +658,41 @@ export default function ResultSection({
             <ImageDown className="mr-2 h-4 w-4" />
             {downloadMutation.isPending ? 'Downloading...' : 'Download Image'}
           </Button>
+          <p className="text-xs text-muted-foreground mt-2">
+            {estimatedSize === undefined
+              ? 'Estimating size...'
+              : estimatedSize === null
+                ? `Size estimate unavailable: this browser can't encode ${format.toUpperCase()}`
+                : `Estimated size: ${formatFileSize(estimatedSize)}`}
+          </p>
         </div>
+        
+        {zipItems.length > 0 && (
+          <div className="mt-4 pt-4 border-t space-y-3">
+            {zipItems.length > 1 && (
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {zipItems.map((item) => (
+                  <label key={item.processed} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={!deselected.has(item.processed)}
+                      onCheckedChange={(checked) => toggleZipItem(item.processed, checked === true)}
+                    />
+                    <span className="truncate">{item.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <Button 
+              variant="outline"
+              onClick={handleDownloadArchive} 
+              disabled={archiveMutation.isPending || selectedZipItems.length === 0}
+              className="w-full sm:w-auto"
+            >
+              <FileArchive className="mr-2 h-4 w-4" />
+              {archiveMutation.isPending ? 'Preparing ZIP...' : `Download ZIP (${selectedZipItems.length})`}
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -7,7 +7,10 @@ import {
   settingsSchema, 
   BackgroundRemovalModel,
   BackgroundType,
-  backgroundTypes
+  backgroundTypes,
+  defaultMaskOps,
+  MaskOperation,
+  TfBackend
 } from '@shared/schema';
 import { Button } from '@/components/ui/button';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel } from '@/components/ui/form';
@@ -24,9 +27,10 @@ import { apiRequest } from '@/lib/queryClient';
 interface SettingsSectionProps {
   settings?: Settings;
   isLoading: boolean;
+  activeBackend?: string;
 }
 
-export default function SettingsSection({ settings, isLoading }: SettingsSectionProps) {
+export default function SettingsSection({ settings, isLoading, activeBackend }: SettingsSectionProps) {
   const [isOpen, setIsOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -36,6 +40,12 @@ export default function SettingsSection({ settings, isLoading }: SettingsSection
     foregroundThreshold: 86,
     backgroundThreshold: 30,
     alphaMatting: false,
+    decontaminateColors: false,
+    refineEdges: false,
+    separatePeople: false,
+    bodyParts: false,
+    maskOps: defaultMaskOps,
+    tfBackend: 'auto',
     backgroundType: 'transparent',
     backgroundColor: '#ffffff',
     backgroundImage: '',
@@ -87,6 +97,24 @@ export default function SettingsSection({ settings, isLoading }: SettingsSection
     { value: 'u2net', label: 'U2Net (Best Quality)' },
     { value: 'u2netp', label: 'U2Net-P (Faster)' },
     { value: 'u2net_human_seg', label: 'U2Net Human Seg (People Only)' },
+    { value: 'isnet-general-use', label: 'IS-Net General (Products & Objects)' },
+  ];
+  
+  const maskOperationOptions: { value: MaskOperation; label: string }[] = [
+    { value: 'none', label: 'None' },
+    { value: 'erode', label: 'Erode' },
+    { value: 'dilate', label: 'Dilate' },
+    { value: 'open', label: 'Open' },
+    { value: 'close', label: 'Close' },
+  ];
+  
+  const maskOperation = form.watch('maskOps.operation');
+  
+  const backendOptions: { value: TfBackend; label: string }[] = [
+    { value: 'auto', label: 'Auto' },
+    { value: 'webgl', label: 'WebGL' },
+    { value: 'wasm', label: 'WASM' },
+    { value: 'cpu', label: 'CPU' },
   ];
   
   return (
@@ -213,6 +241,231 @@ export default function SettingsSection({ settings, isLoading }: SettingsSection
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="decontaminateColors"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <FormLabel>Colour Decontamination</FormLabel>
+                      <FormDescription>
+                        Removes the old background's colour from soft edges.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="refineEdges"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <FormLabel>High Detail Edges</FormLabel>
+                      <FormDescription>
+                        Segments a smaller copy, then sharpens the mask against the full-size image.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="separatePeople"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <FormLabel>Separate People</FormLabel>
+                      <FormDescription>
+                        Tells people apart so you can choose who to keep. People-only model, in the browser.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="bodyParts"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <FormLabel>Body Parts</FormLabel>
+                      <FormDescription>
+                        Finds 24 body parts so you can keep, say, just the head and shoulders. People-only model, in the browser.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="tfBackend"
+                render={({ field }) => (
+                  <FormItem className="space-y-2">
+                    <FormLabel>In-Browser Processing Backend</FormLabel>
+                    <FormControl>
+                      <Tabs value={field.value} onValueChange={field.onChange} className="w-full">
+                        <TabsList className="grid grid-cols-4 w-full">
+                          {backendOptions.map((option) => (
+                            <TabsTrigger key={option.value} value={option.value}>
+                              {option.label}
+                            </TabsTrigger>
+                          ))}
+                        </TabsList>
+                      </Tabs>
+                    </FormControl>
+                    <FormDescription>
+                      Auto tries WebGL, then WASM, then CPU. A backend that can't start falls back the same way.
+                      {activeBackend && ` Currently running on ${activeBackend.toUpperCase()}.`}
+                    </FormDescription>
+                  </FormItem>
+                )}
+              />
+              
+              {/* Mask Clean-up */}
+              <div className="space-y-4 border-t pt-4 mt-4">
+                <h3 className="text-lg font-medium">Mask Clean-up</h3>
+                
+                <FormField
+                  control={form.control}
+                  name="maskOps.operation"
+                  render={({ field }) => (
+                    <FormItem className="space-y-2">
+                      <FormLabel>Morphology</FormLabel>
+                      <FormControl>
+                        <Tabs value={field.value} onValueChange={field.onChange} className="w-full">
+                          <TabsList className="grid grid-cols-5 w-full">
+                            {maskOperationOptions.map((option) => (
+                              <TabsTrigger key={option.value} value={option.value}>
+                                {option.label}
+                              </TabsTrigger>
+                            ))}
+                          </TabsList>
+                        </Tabs>
+                      </FormControl>
+                      <FormDescription>
+                        Erode shrinks the cutout, dilate grows it. Open removes specks and thin spurs; close fills narrow gaps.
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+                
+                {maskOperation !== 'none' && (
+                  <FormField
+                    control={form.control}
+                    name="maskOps.radius"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2">
+                        <FormLabel>Radius: {field.value}px</FormLabel>
+                        <FormControl>
+                          <Slider
+                            min={1}
+                            max={20}
+                            step={1}
+                            value={[field.value]}
+                            onValueChange={(values) => field.onChange(values[0])}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                )}
+                
+                <FormField
+                  control={form.control}
+                  name="maskOps.minIslandArea"
+                  render={({ field }) => (
+                    <FormItem className="space-y-2">
+                      <FormLabel>Remove Islands Smaller Than: {field.value}%</FormLabel>
+                      <FormControl>
+                        <Slider
+                          min={0}
+                          max={10}
+                          step={0.1}
+                          value={[field.value]}
+                          onValueChange={(values) => field.onChange(values[0])}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Drops detached patches below this share of the image. 0 keeps everything.
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="maskOps.maxHoleArea"
+                  render={({ field }) => (
+                    <FormItem className="space-y-2">
+                      <FormLabel>Fill Holes Smaller Than: {field.value}%</FormLabel>
+                      <FormControl>
+                        <Slider
+                          min={0}
+                          max={10}
+                          step={0.1}
+                          value={[field.value]}
+                          onValueChange={(values) => field.onChange(values[0])}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Fills enclosed gaps in the subject below this share of the image. 0 keeps them.
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="maskOps.featherRadius"
+                  render={({ field }) => (
+                    <FormItem className="space-y-2">
+                      <FormLabel>Feather: {field.value}px</FormLabel>
+                      <FormControl>
+                        <Slider
+                          min={0}
+                          max={20}
+                          step={1}
+                          value={[field.value]}
+                          onValueChange={(values) => field.onChange(values[0])}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Softens the cutout's edges.
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              
               {/* Background Options */}
               <div className="space-y-4 border-t pt-4 mt-4">
                 <h3 className="text-lg font-medium">Background Options</h3>
@@ -1,29 +1,49 @@
-import { useState } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { Upload, Image as ImageIcon } from 'lucide-react';
+import { Upload, Image as ImageIcon, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
-import { Settings } from '@shared/schema';
-import { removeBackground } from '@/lib/backgroundRemover';
+import { Settings, stageProgress, uploadImageTypes, browserImageTypes, MAX_UPLOAD_SIZE, type BoxPrompt } from '@shared/schema';
+import { removeBackground, removalSettings, downloadImage } from '@/lib/backgroundRemover';
+import type { BodyPartMap } from '@/lib/bodyParts';
+import type { PersonInstances } from '@/lib/people';
 import { useImageUpload } from '@/hooks/useImageUpload';
-import { apiRequest } from '@/lib/queryClient';
+import { useJobProgress } from '@/hooks/useJobProgress';
+import type { BatchQueueResult } from '@/hooks/useBatchQueue';
+import BatchQueue from './BatchQueue';
+import BoxSelector from './BoxSelector';
+import { submitJob } from '@/lib/jobs';
 
 interface UploadSectionProps {
   settings?: Settings;
   isLoading: boolean;
+  batch: BatchQueueResult;
   onUploadSuccess: (data: UploadResponse) => void;
 }
 
 interface UploadResponse {
   original: string;
   processed: string;
+  box?: BoxPrompt;
+  people?: PersonInstances;
+  parts?: BodyPartMap;
 }
 
-export default function UploadSection({ settings, isLoading, onUploadSuccess }: UploadSectionProps) {
+export default function UploadSection({ settings, isLoading, batch, onUploadSuccess }: UploadSectionProps) {
   const [processing, setProcessing] = useState(false);
-  const [processingProgress, setProcessingProgress] = useState(0);
+  // Rectangle around the subject; only the region inside it is segmented
+  const [box, setBox] = useState<BoxPrompt>();
+  // Cancels in-browser processing when the image changes or the page is left
+  const removalRef = useRef<AbortController | null>(null);
+  const {
+    progress: processingProgress,
+    stage: processingStage,
+    track: trackJob,
+    report: reportProgress,
+    reset: resetProgress
+  } = useJobProgress();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
@@ -34,92 +54,120 @@ export default function UploadSection({ settings, isLoading, onUploadSuccess }:
     error,
     progress,
     upload,
-    reset
+    reset: resetUpload
   } = useImageUpload({
-    maxSize: 10 * 1024 * 1024, // 10MB
-    allowedTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/jpg']
+    maxSize: MAX_UPLOAD_SIZE,
+    allowedTypes: Object.keys(uploadImageTypes),
+    allowedExtensions: Object.values(uploadImageTypes).flat()
   });
   
+  const cancelRemoval = () => {
+    removalRef.current?.abort();
+    removalRef.current = null;
+  };
+  
+  const reset = () => {
+    cancelRemoval();
+    resetUpload();
+  };
+  
+  useEffect(() => cancelRemoval, []);
+  
+  // A box drawn on one image means nothing for the next
+  useEffect(() => {
+    setBox(undefined);
+  }, [preview]);
+  
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop: async (acceptedFiles) => {
-      if (acceptedFiles.length > 0) {
-        await upload(acceptedFiles[0]);
+      if (acceptedFiles.length === 0) return;
+      
+      // Several files (or more after the first) switch to the batch queue
+      if (acceptedFiles.length > 1 || file || batch.items.length > 0) {
+        batch.add(file ? [file, ...acceptedFiles] : acceptedFiles);
+        reset();
+        return;
       }
+      
+      await upload(acceptedFiles[0]);
     },
-    maxSize: 10 * 1024 * 1024,
-    accept: {
-      'image/jpeg': [],
-      'image/png': [],
-      'image/webp': [],
-      'image/jpg': []
-    },
-    multiple: false
+    maxSize: MAX_UPLOAD_SIZE,
+    accept: uploadImageTypes,
+    multiple: true
   });
   
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
       if (!file) throw new Error('No file selected');
       
-      const formData = new FormData();
-      formData.append('image', file);
-      
       setProcessing(true);
-      setProcessingProgress(10);
+      resetProgress();
       
-      // Client-side processing using TensorFlow
-      if (preview) {
+      // Client-side processing using TensorFlow, for formats the browser can decode
+      if (preview && browserImageTypes.includes(file.type)) {
         try {
-          setProcessingProgress(30);
-          // Process the image using TensorFlow.js
-          const processedImageUrl = await removeBackground(preview, {
-            foregroundThreshold: settings?.foregroundThreshold,
-            backgroundThreshold: settings?.backgroundThreshold,
-            alphaMatting: settings?.alphaMatting
-          });
-          
-          setProcessingProgress(80);
+          // Process the image in the browser with the selected model
+          cancelRemoval();
+          const controller = new AbortController();
+          removalRef.current = controller;
+          const cutout = await removeBackground(
+            preview,
+            removalSettings(settings, { box }),
+            (stage) => reportProgress(stageProgress[stage], stage),
+            controller.signal
+          );
           
           // Return both the original and processed image
           return {
             original: preview,
-            processed: processedImageUrl
+            processed: cutout.image,
+            box,
+            people: cutout.people,
+            parts: cutout.parts
           };
         } catch (error) {
           console.error('Error processing image:', error);
           throw error;
         } finally {
-          setProcessingProgress(100);
           setProcessing(false);
         }
       }
       
-      // As a fallback, use server-side processing
-      const response = await apiRequest<UploadResponse>({
-        url: '/api/upload',
-        method: 'POST',
-        body: formData,
-        withCredentials: true,
-        on401: 'throw'
-      });
-      
-      return response;
+      // As a fallback, queue the image for server-side processing and follow its events
+      try {
+        const job = await submitJob(file, settings, box && { points: [], box });
+        return { ...(await trackJob(job.id)), box };
+      } finally {
+        setProcessing(false);
+      }
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/images'] });
       onUploadSuccess(data);
     },
     onError: (error) => {
+      setProcessing(false);
+      // Cancelled by changing the image; nothing went wrong
+      if (error instanceof DOMException && error.name === 'AbortError') return;
       toast({
         title: 'Upload failed',
         description: error instanceof Error ? error.message : 'Failed to upload image',
         variant: 'destructive'
       });
-      setProcessing(false);
     }
   });
   
   // The onUploadSuccess callback is now passed as a prop
   
+  const handleDownloadAll = () => {
+    batch.items.forEach((item) => {
+      if (item.status === 'succeeded' && item.result) {
+        const name = item.file.name.replace(/\.[^.]+$/, '');
+        downloadImage(item.result.processed, `${name}_background_removed`, 'png');
+      }
+    });
+  };
+  
   const handleUpload = async () => {
     if (file) {
       uploadMutation.mutate(file);
@@ -145,11 +193,20 @@ export default function UploadSection({ settings, isLoading, onUploadSuccess }:
         {preview ? (
           <div className="flex flex-col items-center">
             <div className="relative w-full max-w-xl mx-auto">
-              <img 
-                src={preview} 
-                alt="Preview" 
-                className="w-full h-auto max-h-[400px] object-contain rounded-md shadow-sm" 
-              />
+              {file && browserImageTypes.includes(file.type) ? (
+                <div className="flex flex-col items-center gap-2">
+                  <BoxSelector src={preview} box={box} onChange={setBox} />
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {box ? 'Only the area inside the box will be kept' : 'Drag a box around the subject to ignore a busy background'}
+                  </p>
+                </div>
+              ) : (
+                // HEIC and TIFF can't be previewed here; they are decoded on the server
+                <div className="flex flex-col items-center justify-center gap-2 h-48 rounded-md border bg-white dark:bg-gray-950">
+                  <ImageIcon className="h-8 w-8 text-gray-400" />
+                  <p className="text-sm text-gray-500 dark:text-gray-400">{file?.name}</p>
+                </div>
+              )}
               <Button
                 variant="outline"
                 size="sm"
@@ -161,6 +218,20 @@ export default function UploadSection({ settings, isLoading, onUploadSuccess }:
               >
                 Change
               </Button>
+              {box && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="absolute top-2 left-2 bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setBox(undefined);
+                  }}
+                >
+                  <X className="mr-1 h-4 w-4" />
+                  Clear box
+                </Button>
+              )}
             </div>
           </div>
         ) : (
@@ -169,9 +240,11 @@ export default function UploadSection({ settings, isLoading, onUploadSuccess }:
               <Upload className="h-8 w-8 text-primary" />
             </div>
             <div className="space-y-2">
-              <h3 className="font-medium text-lg">Upload an image</h3>
+              <h3 className="font-medium text-lg">
+                {batch.items.length > 0 ? 'Add more images' : 'Upload images'}
+              </h3>
               <p className="text-gray-500 dark:text-gray-400 text-sm max-w-sm">
-                Drag and drop or click to upload. We support JPG, PNG and WebP images up to 10 MB.
+                Drag and drop or click to upload one or more images. We support JPG, PNG, WebP, GIF, TIFF and HEIC images up to 10 MB.
               </p>
             </div>
           </div>
@@ -187,29 +260,53 @@ export default function UploadSection({ settings, isLoading, onUploadSuccess }:
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 text-center">Uploading... {progress}%</p>
           </div>
         )}
+        
+        {processing && (
+          <div className="mt-4 w-full max-w-xs mx-auto">
+            <Progress value={processingProgress} className="h-2" />
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 text-center capitalize">
+              {processingStage ?? 'Starting'}... {processingProgress}%
+            </p>
+          </div>
+        )}
       </div>
       
-      <div className="mt-6 flex justify-center">
-        <Button
-          onClick={handleUpload}
-          disabled={!file || isUploading || uploadMutation.isPending || isLoading}
-          className="w-full max-w-xs"
-        >
-          {uploadMutation.isPending || processing ? (
-            <>
-              <span className="mr-2">
-                Processing...
-              </span>
-              {processingProgress}%
-            </>
-          ) : (
-            <>
-              <ImageIcon className="mr-2 h-4 w-4" />
-              Remove Background
-            </>
-          )}
-        </Button>
-      </div>
+      {batch.items.length > 0 ? (
+        <div className="mt-6">
+          <BatchQueue
+            items={batch.items}
+            isProcessing={batch.isProcessing}
+            onStart={() => batch.start(settings)}
+            onRetry={(id) => batch.retry(id, settings)}
+            onRemove={batch.remove}
+            onView={onUploadSuccess}
+            onDownloadAll={handleDownloadAll}
+            onClear={batch.clear}
+          />
+        </div>
+      ) : (
+        <div className="mt-6 flex justify-center">
+          <Button
+            onClick={handleUpload}
+            disabled={!file || isUploading || uploadMutation.isPending || isLoading}
+            className="w-full max-w-xs"
+          >
+            {uploadMutation.isPending || processing ? (
+              <>
+                <span className="mr-2">
+                  Processing...
+                </span>
+                {processingProgress}%
+              </>
+            ) : (
+              <>
+                <ImageIcon className="mr-2 h-4 w-4" />
+                Remove Background
+              </>
+            )}
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
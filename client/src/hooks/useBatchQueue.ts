@@ -0,0 +1,126 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { MAX_BATCH_FILES, type JobResult, type ProcessingStage, type Settings } from '@shared/schema';
+import { followJob, submitBatch, submitJob } from '@/lib/jobs';
+
+export type BatchItemStatus = 'pending' | 'processing' | 'succeeded' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  progress: number;
+  stage?: ProcessingStage;
+  result?: JobResult;
+  error?: string;
+}
+
+export interface BatchQueueResult {
+  items: BatchItem[];
+  isProcessing: boolean;
+  add: (files: File[]) => void;
+  remove: (id: string) => void;
+  start: (settings?: Settings) => Promise<void>;
+  retry: (id: string, settings?: Settings) => Promise<void>;
+  clear: () => void;
+}
+
+let nextItemId = 1;
+
+export function useBatchQueue(): BatchQueueResult {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const itemsRef = useRef(items);
+  const controllerRef = useRef(new AbortController());
+  itemsRef.current = items;
+
+  const patch = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems((current) => current.map((item) => item.id === id ? { ...item, ...changes } : item));
+  }, []);
+
+  // Mirror a server job onto its queue item until the job finishes
+  const follow = useCallback(async (id: string, jobId: string) => {
+    try {
+      const result = await followJob(jobId, (job) => {
+        patch(id, { progress: job.progress, stage: job.stage });
+      }, controllerRef.current.signal);
+      patch(id, { status: 'succeeded', progress: 100, result });
+    } catch (error) {
+      if (controllerRef.current.signal.aborted) return;
+      patch(id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to process image'
+      });
+    }
+  }, [patch]);
+
+  const add = useCallback((files: File[]) => {
+    setItems((current) => [
+      ...current,
+      ...files.map((file) => ({
+        id: String(nextItemId++),
+        file,
+        status: 'pending' as const,
+        progress: 0
+      }))
+    ]);
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setItems((current) => current.filter((item) => item.id !== id));
+  }, []);
+
+  const start = useCallback(async (settings?: Settings) => {
+    const pending = itemsRef.current.filter((item) => item.status === 'pending');
+    if (pending.length === 0) return;
+
+    pending.forEach((item) => patch(item.id, { status: 'processing', error: undefined }));
+
+    // Sent in requests the server accepts, each failing only its own files
+    const following: Promise<void>[] = [];
+    for (let start = 0; start < pending.length; start += MAX_BATCH_FILES) {
+      const chunk = pending.slice(start, start + MAX_BATCH_FILES);
+      try {
+        const entries = await submitBatch(chunk.map((item) => item.file), settings);
+        entries.forEach((entry, index) => {
+          if ('job' in entry) {
+            following.push(follow(chunk[index].id, entry.job.id));
+          } else {
+            patch(chunk[index].id, { status: 'failed', error: entry.error });
+          }
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to upload images';
+        chunk.forEach((item) => patch(item.id, { status: 'failed', error: message }));
+      }
+    }
+    await Promise.all(following);
+  }, [patch, follow]);
+
+  const retry = useCallback(async (id: string, settings?: Settings) => {
+    const item = itemsRef.current.find((entry) => entry.id === id);
+    if (!item) return;
+
+    patch(id, { status: 'processing', progress: 0, stage: undefined, error: undefined });
+
+    try {
+      const job = await submitJob(item.file, settings);
+      await follow(id, job.id);
+    } catch (error) {
+      patch(id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to upload image'
+      });
+    }
+  }, [patch, follow]);
+
+  const clear = useCallback(() => {
+    controllerRef.current.abort();
+    controllerRef.current = new AbortController();
+    setItems([]);
+  }, []);
+
+  useEffect(() => () => controllerRef.current.abort(), []);
+
+  const isProcessing = items.some((item) => item.status === 'processing');
+
+  return { items, isProcessing, add, remove, start, retry, clear };
+}
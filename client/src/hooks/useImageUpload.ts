@@ -3,6 +3,7 @@ import { useState, useCallback } from 'react';
 interface UploadOptions {
   maxSize?: number; // in bytes
   allowedTypes?: string[];
+  allowedExtensions?: string[]; // accepted when the browser reports no matching type
 }
 
 interface UploadResult {
@@ -29,8 +30,13 @@ export function useImageUpload(options?: UploadOptions): UploadResult {
       return false;
     }
 
-    // Check file type
-    if (options?.allowedTypes && !options.allowedTypes.includes(file.type)) {
+    // Check file type, falling back to the extension
+    const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+    if (
+      options?.allowedTypes &&
+      !options.allowedTypes.includes(file.type) &&
+      !options.allowedExtensions?.includes(extension)
+    ) {
       setError(`File type not supported. Allowed types: ${options.allowedTypes.join(', ')}`);
       return false;
     }
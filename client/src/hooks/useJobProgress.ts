@@ -0,0 +1,43 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { JobResult, ProcessingStage } from '@shared/schema';
+import { followJob } from '@/lib/jobs';
+
+interface JobProgressResult {
+  progress: number;
+  stage: ProcessingStage | null;
+  track: (jobId: string) => Promise<JobResult>;
+  report: (progress: number, stage?: ProcessingStage) => void;
+  reset: () => void;
+}
+
+export function useJobProgress(): JobProgressResult {
+  const [progress, setProgress] = useState(0);
+  const [stage, setStage] = useState<ProcessingStage | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const report = useCallback((value: number, nextStage?: ProcessingStage) => {
+    setProgress(value);
+    if (nextStage) {
+      setStage(nextStage);
+    }
+  }, []);
+
+  const track = useCallback((jobId: string) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    return followJob(jobId, (job) => report(job.progress, job.stage), controller.signal);
+  }, [report]);
+
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setProgress(0);
+    setStage(null);
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { progress, stage, track, report, reset };
+}
@@ -0,0 +1,44 @@
+import { useState, useCallback, useEffect } from 'react';
+import { MAX_POINT_PROMPTS, type PointPrompt } from '@shared/schema';
+
+interface PointPromptsResult {
+  points: PointPrompt[];
+  add: (point: PointPrompt) => void;
+  removeLast: () => void;
+  clear: () => void;
+}
+
+// Points placed on each image this session, keyed by the original image URL,
+// so coming back to an image restores its prompts
+const savedPoints = new Map<string, PointPrompt[]>();
+
+export function usePointPrompts(imageKey: string): PointPromptsResult {
+  const [points, setPoints] = useState<PointPrompt[]>(() => savedPoints.get(imageKey) ?? []);
+
+  useEffect(() => {
+    setPoints(savedPoints.get(imageKey) ?? []);
+  }, [imageKey]);
+
+  const update = useCallback((next: PointPrompt[]) => {
+    if (next.length > 0) {
+      savedPoints.set(imageKey, next);
+    } else {
+      savedPoints.delete(imageKey);
+    }
+    setPoints(next);
+  }, [imageKey]);
+
+  const add = useCallback((point: PointPrompt) => {
+    const current = savedPoints.get(imageKey) ?? [];
+    // Past the limit the oldest point makes way
+    update([...current, point].slice(-MAX_POINT_PROMPTS));
+  }, [imageKey, update]);
+
+  const removeLast = useCallback(() => {
+    update((savedPoints.get(imageKey) ?? []).slice(0, -1));
+  }, [imageKey, update]);
+
+  const clear = useCallback(() => update([]), [update]);
+
+  return { points, add, removeLast, clear };
+}
@@ -1,126 +1,292 @@
-import * as bodyPix from '@tensorflow-models/body-pix';
-import * as tf from '@tensorflow/tfjs';
+import type { BackgroundRemovalModel, ImageFormat, ProcessingStage, Prompts, Settings, TfBackend } from '@shared/schema';
+import type { RemoveBackgroundSettings } from '@/lib/cutout';
+import { embedIccProfile, readIccProfile } from '@/lib/metadata';
+import type { BodyPartMap } from '@/lib/bodyParts';
+import type { PersonInstances } from '@/lib/people';
+import type { SegmentationRequest, SegmentationResponse } from '@/lib/segmentation.worker';
 
-// Initialize TensorFlow.js
-tf.setBackend('webgl');
+export type { RemoveBackgroundSettings };
 
-let bodyPixModel: bodyPix.BodyPix | null = null;
+/**
+ * A cutout as a PNG data URL, with the people in it and their body parts
+ * told apart when the model can do that
+ */
+export interface Cutout {
+  image: string;
+  people?: PersonInstances;
+  parts?: BodyPartMap;
+}
 
-export async function loadModel() {
-  try {
-    if (!bodyPixModel) {
-      bodyPixModel = await bodyPix.load({
-        architecture: 'MobileNetV1',
-        outputStride: 16,
-        multiplier: 1.0, // बेहतर accuracy के लिए 1.0 किया
-        quantBytes: 2
-      });
-      console.log('BodyPix model loaded successfully');
-    }
-    return bodyPixModel;
-  } catch (error) {
-    console.error('Failed to load BodyPix model:', error);
-    throw error;
+// Model loading, inference and the pixel loops all run in this worker, so
+// the page stays responsive on large photos. It keeps loaded models warm
+// between images.
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const responseHandlers = new Map<number, (response: SegmentationResponse) => void>();
+
+/**
+ * Fails every request still waiting on the worker and drops it, so the next
+ * request starts a fresh one instead of waiting forever on a dead worker
+ * @param message - Why the worker failed
+ */
+function failWorker(message: string) {
+  worker?.terminate();
+  worker = null;
+  const pending = Array.from(responseHandlers.entries());
+  responseHandlers.clear();
+  for (const [id, handler] of pending) {
+    handler({ type: 'error', id, message });
+  }
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./segmentation.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<SegmentationResponse>) => {
+      responseHandlers.get(event.data.id)?.(event.data);
+    };
+    // A worker that fails to load or crashes never answers its requests
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      failWorker(event.message ? `Background removal worker failed: ${event.message}` : 'Background removal worker failed');
+    };
+    worker.onmessageerror = () => {
+      failWorker('Could not read a message from the background removal worker');
+    };
   }
+  return worker;
+}
+
+// Ids for the images removal has run on, least recently used first. The
+// worker keeps segmentations by id rather than by URL, since image URLs are
+// often large data URLs.
+const MAX_IMAGE_IDS = 8;
+const imageIds = new Map<string, number>();
+let nextImageId = 0;
+
+function imageIdFor(imageUrl: string): number {
+  const id = imageIds.get(imageUrl) ?? nextImageId++;
+  imageIds.delete(imageUrl);
+  imageIds.set(imageUrl, id);
+  if (imageIds.size > MAX_IMAGE_IDS) {
+    imageIds.delete(imageIds.keys().next().value!);
+  }
+  return id;
+}
+
+// A model loaded in the worker: the TensorFlow.js backend it runs on, and
+// whether BodyPix stands in for it because its ONNX weights are missing
+export interface LoadedModel {
+  backend: string;
+  fallback: boolean;
 }
 
 /**
- * Refine mask using dilation to remove background more effectively
+ * Loads a segmentation model in the worker ahead of the first image
+ * @param model - The model to load
+ * @param backend - The preferred TensorFlow.js backend
  */
-function refineMask(mask: Uint8Array, width: number, height: number, iterations: number = 2): Uint8Array {
-  const newMask = new Uint8Array(mask);
-  
-  for (let iter = 0; iter < iterations; iter++) {
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        const i = y * width + x;
-        
-        if (mask[i] === 0 && (
-          mask[i - 1] === 1 || mask[i + 1] === 1 || 
-          mask[i - width] === 1 || mask[i + width] === 1
-        )) {
-          newMask[i] = 1; // Expand foreground
-        }
+export function loadModel(model: BackgroundRemovalModel, backend: TfBackend = 'auto'): Promise<LoadedModel> {
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    responseHandlers.set(id, (response) => {
+      if (response.type === 'loaded') {
+        responseHandlers.delete(id);
+        resolve({ backend: response.backend, fallback: response.fallback });
+      } else if (response.type === 'error') {
+        responseHandlers.delete(id);
+        reject(new Error(response.message));
       }
-    }
+    });
+    getWorker().postMessage({ type: 'load', id, model, backend } satisfies SegmentationRequest);
+  });
+}
+
+/**
+ * Decodes an image with its EXIF orientation applied, so the mask and the
+ * pixels it is applied to are always the same way up. Images with an ICC
+ * profile keep their original colour values, and the profile is returned so
+ * the cutout can be tagged with it.
+ */
+async function loadUprightImage(imageUrl: string): Promise<{ bitmap: ImageBitmap; profile?: Uint8Array }> {
+  const blob = await (await fetch(imageUrl)).blob();
+  const profile = await readIccProfile(new Uint8Array(await blob.arrayBuffer()));
+  const bitmap = await createImageBitmap(blob, {
+    imageOrientation: 'from-image',
+    colorSpaceConversion: profile ? 'none' : 'default'
+  });
+  return { bitmap, profile };
+}
+
+/**
+ * Encodes a canvas as a PNG data URL, tagged with an ICC profile if given
+ * @param canvas - The canvas to encode
+ * @param profile - The ICC profile the pixel values are in
+ */
+export async function canvasToPngDataUrl(canvas: HTMLCanvasElement, profile?: Uint8Array): Promise<string> {
+  if (!profile) {
+    return canvas.toDataURL('image/png');
+  }
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error('Could not encode image');
   }
-  return newMask;
+  const bytes = await embedIccProfile(new Uint8Array(await blob.arrayBuffer()), 'png', profile, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Could not encode image'));
+    reader.readAsDataURL(new Blob([bytes], { type: 'image/png' }));
+  });
+}
+
+// A cutout's pixels, with the ICC profile their values are in
+export interface DecodedCutout {
+  pixels: ImageData;
+  profile?: Uint8Array;
 }
 
 /**
- * Removes the background from an image, keeping only the person
+ * Decodes a cutout's pixels for editing, keeping its original colour values
+ * when it has an ICC profile so it can be encoded again with the same one
+ * @param imageUrl - The cutout to decode
+ */
+export async function decodeCutout(imageUrl: string): Promise<DecodedCutout> {
+  const blob = await (await fetch(imageUrl)).blob();
+  const profile = await readIccProfile(new Uint8Array(await blob.arrayBuffer()));
+  const bitmap = await createImageBitmap(blob, { colorSpaceConversion: profile ? 'none' : 'default' });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return { pixels: ctx.getImageData(0, 0, canvas.width, canvas.height), profile };
+}
+
+/**
+ * Picks the settings in-browser background removal uses from the app settings
+ * @param settings - The saved settings, if loaded
+ * @param prompts - The point and box prompts for this image
+ */
+export function removalSettings(settings?: Settings, prompts?: Partial<Prompts>): RemoveBackgroundSettings {
+  return {
+    model: settings?.model,
+    tfBackend: settings?.tfBackend,
+    foregroundThreshold: settings?.foregroundThreshold,
+    backgroundThreshold: settings?.backgroundThreshold,
+    alphaMatting: settings?.alphaMatting,
+    decontaminateColors: settings?.decontaminateColors,
+    refineEdges: settings?.refineEdges,
+    separatePeople: settings?.separatePeople,
+    bodyParts: settings?.bodyParts,
+    maskOps: settings?.maskOps,
+    points: prompts?.points,
+    box: prompts?.box
+  };
+}
+
+/**
+ * Removes the background from an image with the selected model. Edges get
+ * a soft alpha matte derived from the segmentation probabilities, or with
+ * alphaMatting, one solved against the image colours within a trimap.
+ * Cutting the same image out again, with other points or matting, reuses
+ * the models' output from before.
+ * @param imageUrl - The image to cut out
+ * @param settings - The model and matting settings
+ * @param onStage - Called as each processing stage finishes
+ * @param signal - Cancels the removal when aborted
  */
 export async function removeBackground(
   imageUrl: string,
-  settings: {
-    foregroundThreshold?: number;
-    blurEffect?: number;
-    refineEdges?: boolean;
-  } = {}
-): Promise<string> {
+  settings: RemoveBackgroundSettings = {},
+  onStage?: (stage: ProcessingStage) => void,
+  signal?: AbortSignal
+): Promise<Cutout> {
   try {
-    const model = await loadModel();
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-
-    await new Promise<void>((resolve, reject) => {
-      img.onload = () => resolve();
-      img.onerror = reject;
-      img.src = imageUrl;
-    });
+    const { bitmap, profile } = await loadUprightImage(imageUrl);
+    if (signal?.aborted) {
+      bitmap.close();
+      throw new DOMException('Background removal was cancelled', 'AbortError');
+    }
 
-    const segmentation = await model.segmentPerson(img, {
-      flipHorizontal: false,
-      internalResolution: 'high',
-      segmentationThreshold: (settings.foregroundThreshold || 10) / 100, // बेहतर accuracy के लिए 10% threshold
-    });
+    const id = nextRequestId++;
+    const worker = getWorker();
+    const result = await new Promise<Extract<SegmentationResponse, { type: 'result' }>>((resolve, reject) => {
+      const onAbort = () => {
+        responseHandlers.delete(id);
+        worker.postMessage({ type: 'cancel', id } satisfies SegmentationRequest);
+        reject(new DOMException('Background removal was cancelled', 'AbortError'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
 
-    const mask = settings.refineEdges ? refineMask(segmentation.data, img.width, img.height) : segmentation.data;
+      responseHandlers.set(id, (response) => {
+        if (response.type === 'stage') {
+          onStage?.(response.stage);
+          return;
+        }
+        responseHandlers.delete(id);
+        signal?.removeEventListener('abort', onAbort);
+        if (response.type === 'result') {
+          resolve(response);
+        } else if (response.type === 'error') {
+          reject(new Error(response.message));
+        }
+      });
+
+      // The bitmap is transferred, not copied; the worker closes it
+      worker.postMessage(
+        { type: 'segment', id, imageId: imageIdFor(imageUrl), image: bitmap, settings } satisfies SegmentationRequest,
+        [bitmap]
+      );
+    });
 
     const canvas = document.createElement('canvas');
-    canvas.width = img.width;
-    canvas.height = img.height;
+    canvas.width = result.width;
+    canvas.height = result.height;
     const ctx = canvas.getContext('2d');
-
     if (!ctx) {
       throw new Error('Could not get canvas context');
     }
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(result.data), result.width, result.height), 0, 0);
 
-    ctx.drawImage(img, 0, 0);
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const pixels = imageData.data;
-
-    for (let i = 0; i < mask.length; i++) {
-      const pixelIndex = i * 4;
-
-      if (!mask[i]) {
-        pixels[pixelIndex + 3] = 0; // Background को transparent कर दिया
+    const image = await canvasToPngDataUrl(canvas, profile);
+    onStage?.('encoded');
+    return {
+      image,
+      people: result.people && {
+        labels: new Uint8Array(result.people.labels),
+        width: result.width,
+        height: result.height,
+        count: result.people.count
+      },
+      parts: result.parts && {
+        labels: new Uint8Array(result.parts),
+        width: result.width,
+        height: result.height
       }
-    }
-
-    ctx.putImageData(imageData, 0, 0);
-
-    // Apply blur effect for smoother edges
-    if (settings.blurEffect && settings.blurEffect > 0) {
-      ctx.globalAlpha = 0.9;
-      ctx.filter = `blur(${settings.blurEffect}px)`;
-      ctx.drawImage(canvas, 0, 0);
-      ctx.filter = 'none';
-    }
-
-    return canvas.toDataURL('image/png');
+    };
   } catch (error) {
-    console.error('Error removing background:', error);
+    if (!signal?.aborted) {
+      console.error('Error removing background:', error);
+    }
     throw error;
   }
 }
+
 /**
  * Downloads the processed image
  * @param dataUrl - The data URL of the image
  * @param filename - The filename for the download
- * @param format - The image format (png or jpg)
+ * @param format - The image format (png, jpg, webp or avif)
  */
-export function downloadImage(dataUrl: string, filename: string = 'background_removed', format: 'png' | 'jpg' = 'png') {
+export function downloadImage(dataUrl: string, filename: string = 'background_removed', format: ImageFormat = 'png') {
   const link = document.createElement('a');
   link.download = `${filename}.${format}`;
   link.href = dataUrl;
@@ -0,0 +1,110 @@
+/**
+ * The body parts found in an image: every pixel's part, 0 for none and then
+ * the part's index in BODY_PARTS plus 1, row by row
+ */
+export interface BodyPartMap {
+  labels: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface BodyPart {
+  // BodyPix's name for the part
+  id: string;
+  label: string;
+  // Overlay colour, from BodyPix's own rainbow palette
+  colour: [number, number, number];
+}
+
+// BodyPix's 24 parts, in the order of its part ids
+export const BODY_PARTS: BodyPart[] = [
+  { id: 'left_face', label: 'Left face', colour: [110, 64, 170] },
+  { id: 'right_face', label: 'Right face', colour: [143, 61, 178] },
+  { id: 'left_upper_arm_front', label: 'Left upper arm (front)', colour: [178, 60, 178] },
+  { id: 'left_upper_arm_back', label: 'Left upper arm (back)', colour: [210, 62, 167] },
+  { id: 'right_upper_arm_front', label: 'Right upper arm (front)', colour: [238, 67, 149] },
+  { id: 'right_upper_arm_back', label: 'Right upper arm (back)', colour: [255, 78, 125] },
+  { id: 'left_lower_arm_front', label: 'Left lower arm (front)', colour: [255, 94, 99] },
+  { id: 'left_lower_arm_back', label: 'Left lower arm (back)', colour: [255, 115, 75] },
+  { id: 'right_lower_arm_front', label: 'Right lower arm (front)', colour: [255, 140, 56] },
+  { id: 'right_lower_arm_back', label: 'Right lower arm (back)', colour: [239, 167, 47] },
+  { id: 'left_hand', label: 'Left hand', colour: [217, 194, 49] },
+  { id: 'right_hand', label: 'Right hand', colour: [194, 219, 64] },
+  { id: 'torso_front', label: 'Torso (front)', colour: [175, 240, 91] },
+  { id: 'torso_back', label: 'Torso (back)', colour: [135, 245, 87] },
+  { id: 'left_upper_leg_front', label: 'Left upper leg (front)', colour: [96, 247, 96] },
+  { id: 'left_upper_leg_back', label: 'Left upper leg (back)', colour: [64, 243, 115] },
+  { id: 'right_upper_leg_front', label: 'Right upper leg (front)', colour: [40, 234, 141] },
+  { id: 'right_upper_leg_back', label: 'Right upper leg (back)', colour: [28, 219, 169] },
+  { id: 'left_lower_leg_front', label: 'Left lower leg (front)', colour: [26, 199, 194] },
+  { id: 'left_lower_leg_back', label: 'Left lower leg (back)', colour: [33, 176, 213] },
+  { id: 'right_lower_leg_front', label: 'Right lower leg (front)', colour: [47, 150, 224] },
+  { id: 'right_lower_leg_back', label: 'Right lower leg (back)', colour: [65, 125, 224] },
+  { id: 'left_feet', label: 'Left foot', colour: [84, 101, 214] },
+  { id: 'right_feet', label: 'Right foot', colour: [99, 81, 195] }
+];
+
+function partsNamed(...ids: string[]): number[] {
+  return BODY_PARTS.flatMap((part, index) => (ids.includes(part.id) ? [index + 1] : []));
+}
+
+const ALL_PARTS = BODY_PARTS.map((_, index) => index + 1);
+const HANDS = partsNamed('left_hand', 'right_hand');
+
+// Common selections, as the labels of the parts they keep
+export const BODY_PART_PRESETS: { name: string; parts: number[] }[] = [
+  { name: 'Everything', parts: ALL_PARTS },
+  { name: 'Face only', parts: partsNamed('left_face', 'right_face') },
+  {
+    name: 'Head and shoulders',
+    parts: partsNamed(
+      'left_face', 'right_face', 'torso_front', 'torso_back',
+      'left_upper_arm_front', 'left_upper_arm_back', 'right_upper_arm_front', 'right_upper_arm_back'
+    )
+  },
+  { name: 'Without hands', parts: ALL_PARTS.filter((part) => !HANDS.includes(part)) }
+];
+
+/**
+ * Makes the parts not kept transparent, in place. Visible pixels that are
+ * no body part, like a held bag, are left as they are.
+ * @param pixels - The cutout's RGBA pixels
+ * @param parts - The body parts found in the image
+ * @param kept - The parts to keep, as labels
+ */
+export function keepParts(pixels: Uint8ClampedArray, parts: BodyPartMap, kept: ReadonlySet<number>) {
+  const { labels } = parts;
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] !== 0 && !kept.has(labels[i])) {
+      pixels[i * 4 + 3] = 0;
+    }
+  }
+}
+
+/**
+ * Paints every part in its colour, at most maxSide pixels on the longer side
+ * @param parts - The body parts found in the image
+ * @param maxSide - The longest side of the drawing
+ */
+export function drawPartOverlay(parts: BodyPartMap, maxSide: number): ImageData {
+  const scale = Math.min(1, maxSide / Math.max(parts.width, parts.height));
+  const width = Math.max(1, Math.round(parts.width * scale));
+  const height = Math.max(1, Math.round(parts.height * scale));
+
+  const overlay = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(parts.height - 1, Math.floor((y + 0.5) / scale));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(parts.width - 1, Math.floor((x + 0.5) / scale));
+      const label = parts.labels[sy * parts.width + sx];
+      if (label === 0) continue;
+      const i = (y * width + x) * 4;
+      const [r, g, b] = BODY_PARTS[label - 1].colour;
+      overlay.data[i] = r;
+      overlay.data[i + 1] = g;
+      overlay.data[i + 2] = b;
+      overlay.data[i + 3] = 255;
+    }
+  }
+  return overlay;
+}
@@ -0,0 +1,107 @@
+import type { BackgroundRemovalModel, BoxPrompt, MaskOps, PointPrompt, TfBackend } from '@shared/schema';
+import { applyMaskOps } from '@shared/maskOps';
+import { decontaminateColors, matteAlpha } from '@shared/matting';
+
+/**
+ * Settings for a single background removal
+ */
+export interface RemoveBackgroundSettings {
+  model?: BackgroundRemovalModel;
+  tfBackend?: TfBackend;
+  foregroundThreshold?: number;
+  backgroundThreshold?: number;
+  alphaMatting?: boolean;
+  decontaminateColors?: boolean;
+  blurEffect?: number;
+  // Coarse-to-fine segmentation, for edge detail beyond the model's input size
+  refineEdges?: boolean;
+  // Tell the people apart, with a model that can
+  separatePeople?: boolean;
+  // Find their body parts too, which takes a slower pass of the model
+  bodyParts?: boolean;
+  maskOps?: MaskOps;
+  // Foreground and background clicks to constrain the segmentation with
+  points?: PointPrompt[];
+  // Rectangle around the subject; everything outside it is background
+  box?: BoxPrompt;
+}
+
+// Narrowest uncertain band, in probability units, so edges are never stair-stepped
+const MIN_SOFT_BAND = 0.1;
+
+/**
+ * Converts foreground probabilities into a continuous alpha channel.
+ * Probabilities above the foreground threshold are opaque, below the
+ * background threshold transparent, and the band in between is ramped
+ * with a smoothstep curve.
+ */
+function probabilitiesToAlpha(probabilities: Float32Array, foregroundThreshold: number, backgroundThreshold: number): Uint8Array {
+  let low = Math.min(backgroundThreshold, foregroundThreshold);
+  let high = Math.max(backgroundThreshold, foregroundThreshold);
+  if (high - low < MIN_SOFT_BAND) {
+    const centre = (low + high) / 2;
+    low = centre - MIN_SOFT_BAND / 2;
+    high = centre + MIN_SOFT_BAND / 2;
+  }
+
+  const alpha = new Uint8Array(probabilities.length);
+  for (let i = 0; i < probabilities.length; i++) {
+    const t = Math.min(Math.max((probabilities[i] - low) / (high - low), 0), 1);
+    alpha[i] = Math.round(t * t * (3 - 2 * t) * 255);
+  }
+  return alpha;
+}
+
+/**
+ * Turns a model's foreground probabilities into the cutout's alpha mask,
+ * cleaned up with the configured mask operations
+ * @param pixels - The image's RGBA pixels, row by row
+ * @param width - The image width
+ * @param height - The image height
+ * @param probabilities - Foreground probability (0-1) of every pixel
+ * @param settings - The thresholds, matting and mask operation settings
+ */
+export function createMask(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  probabilities: Float32Array,
+  settings: RemoveBackgroundSettings
+): Uint8Array {
+  const foregroundThreshold = (settings.foregroundThreshold || 10) / 100; // बेहतर accuracy के लिए 10% threshold
+  const backgroundThreshold = (settings.backgroundThreshold || 10) / 100;
+
+  const alpha = settings.alphaMatting
+    ? matteAlpha(pixels, width, height, probabilities, { foregroundThreshold, backgroundThreshold })
+    : probabilitiesToAlpha(probabilities, foregroundThreshold, backgroundThreshold);
+  return settings.maskOps ? applyMaskOps(alpha, width, height, settings.maskOps) : alpha;
+}
+
+/**
+ * Applies an alpha mask to an image's pixels in place, keeping any
+ * transparency the image already had
+ * @param pixels - The image's RGBA pixels, row by row
+ * @param width - The image width
+ * @param height - The image height
+ * @param mask - The alpha mask from createMask
+ * @param settings - Whether to decontaminate edge colours
+ */
+export function applyMask(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  mask: Uint8Array,
+  settings: RemoveBackgroundSettings
+) {
+  for (let i = 0; i < mask.length; i++) {
+    const pixelIndex = i * 4;
+
+    // Background को transparent कर दिया, किनारों पर soft alpha
+    pixels[pixelIndex + 3] = Math.min(pixels[pixelIndex + 3], mask[i]);
+  }
+
+  // किनारों से पुराने background का रंग हटाओ
+  if (settings.decontaminateColors) {
+    decontaminateColors(pixels, width, height);
+  }
+}
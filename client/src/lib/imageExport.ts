@@ -0,0 +1,98 @@
+import { formatQualityLevels, imageFormatMimeTypes, type DownloadOptions, type Settings } from '@shared/schema';
+import { applyMetadataPolicy, embedIccProfile, readIccProfile } from '@/lib/metadata';
+
+/**
+ * Thrown when the browser's canvas cannot encode the requested format
+ * (most browsers cannot write AVIF, for example)
+ */
+export class UnsupportedFormatError extends Error {
+  constructor(format: string) {
+    super(`Your browser cannot export ${format.toUpperCase()} images`);
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+/**
+ * Loads an image element from a URL
+ * @param src - The image URL or data URL
+ */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = src;
+  });
+}
+
+/**
+ * Composites the processed image over the configured background and encodes it
+ * @param processedImage - The URL of the cutout
+ * @param settings - Background settings to composite with
+ * @param options - Output format, quality, metadata policy and colour profile mode
+ * @param sourceImage - URL of the original upload, to copy metadata from
+ */
+export async function exportImage(
+  processedImage: string,
+  settings: Settings | undefined,
+  options: DownloadOptions,
+  sourceImage?: string
+): Promise<Blob> {
+  // Keeping a profile means drawing the original colour values instead of letting the browser convert to sRGB
+  let profile: Uint8Array | undefined;
+  let img: HTMLImageElement | ImageBitmap;
+  if (options.colorProfile === 'preserve') {
+    const processedBlob = await (await fetch(processedImage)).blob();
+    profile = await readIccProfile(new Uint8Array(await processedBlob.arrayBuffer()));
+    img = await createImageBitmap(processedBlob, { colorSpaceConversion: profile ? 'none' : 'default' });
+  } else {
+    img = await loadImage(processedImage);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  // Draw background first if not transparent; JPG can't store alpha so it always gets one
+  if (settings?.backgroundType === 'image' && settings.backgroundImage) {
+    const bgImg = await loadImage(settings.backgroundImage);
+    ctx.drawImage(bgImg, 0, 0, canvas.width, canvas.height);
+  } else if (settings?.backgroundType === 'color' || options.format === 'jpg') {
+    ctx.fillStyle = settings?.backgroundColor ?? '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  // Draw the processed image on top
+  ctx.drawImage(img, 0, 0);
+
+  const mimeType = imageFormatMimeTypes[options.format];
+  const quality = formatQualityLevels[options.format][options.quality] / 100;
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mimeType, quality));
+
+  // Browsers silently fall back to PNG for types they can't encode
+  if (!blob || blob.type !== mimeType) {
+    throw new UnsupportedFormatError(options.format);
+  }
+
+  let output = blob;
+  if (profile) {
+    const bytes = await embedIccProfile(new Uint8Array(await blob.arrayBuffer()), options.format, profile, canvas.width, canvas.height);
+    output = new Blob([bytes], { type: blob.type });
+  }
+  return sourceImage ? applyMetadataPolicy(output, options.format, sourceImage, options.metadata) : output;
+}
+
+/**
+ * Formats a byte count for display, e.g. 1.4 MB
+ * @param bytes - The size in bytes
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
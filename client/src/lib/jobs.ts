@@ -0,0 +1,140 @@
+import type { BatchEntry, JobInfo, JobResult, Prompts, Settings } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+
+const MAX_RETRIES = 5;
+const RETRY_DELAY = 1000; // in ms, multiplied by the attempt number
+
+/**
+ * Queues an image for server-side background removal
+ * @param file - The image file to process
+ * @param settings - Settings to process with instead of the saved defaults
+ * @param prompts - Prompts for this image, such as a box around the subject
+ */
+export async function submitJob(file: File, settings?: Settings, prompts?: Prompts): Promise<JobInfo> {
+  const formData = new FormData();
+  formData.append('image', file);
+  if (settings) {
+    formData.append('settings', JSON.stringify(settings));
+  }
+  if (prompts) {
+    formData.append('prompts', JSON.stringify(prompts));
+  }
+
+  return apiRequest<JobInfo>({
+    url: '/api/jobs',
+    method: 'POST',
+    body: formData,
+    withCredentials: true,
+    on401: 'throw'
+  });
+}
+
+/**
+ * Queues up to MAX_BATCH_FILES images that are all processed with the same
+ * settings
+ * @param files - The image files to process
+ * @param settings - Settings to process with instead of the saved defaults
+ * @returns Each file's job, or why the server refused it, in order
+ */
+export async function submitBatch(files: File[], settings?: Settings): Promise<BatchEntry[]> {
+  const formData = new FormData();
+  files.forEach((file) => formData.append('images', file));
+  if (settings) {
+    formData.append('settings', JSON.stringify(settings));
+  }
+
+  const { entries } = await apiRequest<{ entries: BatchEntry[] }>({
+    url: '/api/jobs/batch',
+    method: 'POST',
+    body: formData,
+    withCredentials: true,
+    on401: 'throw'
+  });
+  return entries;
+}
+
+/**
+ * Queues a server-processed image to be cut out again with prompts, using
+ * the settings and box it was first processed with. The server reuses the
+ * model's output from the first run.
+ * @param processedImage - The processed image's URL
+ * @param prompts - The point prompts to segment with
+ */
+export async function submitRefineJob(processedImage: string, prompts: Prompts): Promise<JobInfo> {
+  const filename = processedImage.split('/').pop();
+  return apiRequest<JobInfo>({
+    url: `/api/images/processed/${filename}/refine`,
+    method: 'POST',
+    body: { prompts },
+    on401: 'throw'
+  });
+}
+
+/**
+ * Follows a job's Server-Sent Events stream until it finishes
+ * @param jobId - The job id returned by submitJob or submitBatch
+ * @param onUpdate - Called with every job snapshot received
+ * @param signal - Stops following the job when aborted
+ */
+export function followJob(
+  jobId: string,
+  onUpdate: (job: JobInfo) => void,
+  signal?: AbortSignal
+): Promise<JobResult> {
+  return new Promise<JobResult>((resolve, reject) => {
+    let lastEventId = 0;
+    let retries = 0;
+    let source: EventSource | null = null;
+
+    const onAbort = () => {
+      source?.close();
+      reject(new Error('Stopped following job'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // However the job ends, the signal is no longer needed
+    const stopListening = () => signal?.removeEventListener('abort', onAbort);
+
+    const connect = () => {
+      if (signal?.aborted) return;
+
+      // A fresh EventSource can't send the Last-Event-ID header, so resume via the query string
+      const current = new EventSource(`/api/jobs/${jobId}/events?lastEventId=${lastEventId}`);
+      source = current;
+
+      current.addEventListener('progress', (event) => {
+        const message = event as MessageEvent<string>;
+        const job: JobInfo = JSON.parse(message.data);
+        lastEventId = Number(message.lastEventId) || lastEventId;
+        retries = 0;
+        onUpdate(job);
+
+        if (job.status === 'succeeded' && job.result) {
+          current.close();
+          stopListening();
+          resolve(job.result);
+        } else if (job.status === 'failed') {
+          current.close();
+          stopListening();
+          reject(new Error(job.error || 'Failed to process image'));
+        }
+      });
+
+      current.onerror = () => {
+        // While the connection is only interrupted the browser reconnects on its own
+        // and sends Last-Event-ID itself; once it gives up we retry manually.
+        if (current.readyState !== EventSource.CLOSED) return;
+
+        if (retries >= MAX_RETRIES) {
+          stopListening();
+          reject(new Error('Lost connection to the processing server'));
+          return;
+        }
+        retries++;
+        setTimeout(connect, RETRY_DELAY * retries);
+      };
+    };
+
+    connect();
+  });
+}
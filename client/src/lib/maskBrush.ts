@@ -0,0 +1,149 @@
+/**
+ * A rectangle of mask pixels, in image coordinates
+ */
+export interface MaskRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One brush stroke, recorded as the pixels it changed so it can be undone
+ * and redone without keeping copies of the whole mask
+ */
+export interface MaskEdit {
+  rect: MaskRect;
+  before: Uint8Array;
+  after: Uint8Array;
+}
+
+/**
+ * Grows a rectangle to cover another, treating null as empty
+ */
+export function unionRect(a: MaskRect | null, b: MaskRect): MaskRect {
+  if (!a) return b;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y
+  };
+}
+
+/**
+ * Stamps one round brush dab into a stroke's strength buffer (0-1 per pixel).
+ * The dab is full strength out to `hardness` of its radius, then falls off
+ * smoothly to the edge. Overlapping dabs keep the strongest value rather than
+ * adding up, so a stroke's soft edge stays soft however slowly it is drawn.
+ * @param strength - The stroke's strength buffer, one value per pixel
+ * @param width - The mask width
+ * @param height - The mask height
+ * @param cx - Dab centre x, in image pixels
+ * @param cy - Dab centre y, in image pixels
+ * @param radius - Dab radius, in image pixels
+ * @param hardness - Share of the radius (0-1) painted at full strength
+ * @returns The pixels the dab touched, or null if it missed the mask
+ */
+export function stampDab(
+  strength: Float32Array,
+  width: number,
+  height: number,
+  cx: number,
+  cy: number,
+  radius: number,
+  hardness: number
+): MaskRect | null {
+  const x0 = Math.max(0, Math.floor(cx - radius));
+  const y0 = Math.max(0, Math.floor(cy - radius));
+  const x1 = Math.min(width - 1, Math.ceil(cx + radius));
+  const y1 = Math.min(height - 1, Math.ceil(cy + radius));
+  if (x0 > x1 || y0 > y1) return null;
+
+  const core = radius * hardness;
+  const falloff = Math.max(radius - core, 1e-6);
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const distance = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+      if (distance > radius) continue;
+      const t = distance <= core ? 1 : 1 - (distance - core) / falloff;
+      const value = t * t * (3 - 2 * t);
+      const i = y * width + x;
+      if (value > strength[i]) strength[i] = value;
+    }
+  }
+  return { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 };
+}
+
+/**
+ * Stamps dabs along a line, spaced a quarter of the radius apart so the
+ * stroke has no gaps
+ */
+export function stampLine(
+  strength: Float32Array,
+  width: number,
+  height: number,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  radius: number,
+  hardness: number
+): MaskRect | null {
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  const steps = Math.max(1, Math.ceil(distance / Math.max(radius / 4, 0.5)));
+  let dirty: MaskRect | null = null;
+  for (let step = 1; step <= steps; step++) {
+    const t = step / steps;
+    const rect = stampDab(strength, width, height, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, radius, hardness);
+    if (rect) dirty = unionRect(dirty, rect);
+  }
+  return dirty;
+}
+
+/**
+ * Blends a stroke into the mask within a rectangle: each pixel moves from
+ * its value before the stroke towards the target by the stroke's strength
+ * @param mask - The mask being edited, one alpha value per pixel
+ * @param base - The mask as it was when the stroke started
+ * @param strength - The stroke's strength buffer
+ * @param width - The mask width
+ * @param target - 255 to keep, 0 to erase
+ * @param rect - The pixels to update
+ */
+export function applyStroke(
+  mask: Uint8Array,
+  base: Uint8Array,
+  strength: Float32Array,
+  width: number,
+  target: number,
+  rect: MaskRect
+) {
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    for (let x = rect.x; x < rect.x + rect.width; x++) {
+      const i = y * width + x;
+      mask[i] = Math.round(base[i] + (target - base[i]) * strength[i]);
+    }
+  }
+}
+
+/**
+ * Copies a rectangle out of a mask
+ */
+export function readRect(mask: Uint8Array, width: number, rect: MaskRect): Uint8Array {
+  const region = new Uint8Array(rect.width * rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const start = (rect.y + y) * width + rect.x;
+    region.set(mask.subarray(start, start + rect.width), y * rect.width);
+  }
+  return region;
+}
+
+/**
+ * Writes a rectangle copied with readRect back into a mask
+ */
+export function writeRect(mask: Uint8Array, width: number, rect: MaskRect, region: Uint8Array) {
+  for (let y = 0; y < rect.height; y++) {
+    mask.set(region.subarray(y * rect.width, (y + 1) * rect.width), (rect.y + y) * width + rect.x);
+  }
+}
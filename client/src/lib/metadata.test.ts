@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { embedExif, embedIccProfile, filterExif } from './metadata';
+
+interface Entry {
+  tag: number;
+  type: number;
+  count: number;
+  value: number;
+}
+
+// Little-endian TIFF with IFD0 -> Exif IFD, IFD0 -> IFD1 and a thumbnail at the end
+function buildExif(thumbnailSize: number): Uint8Array {
+  const ifd0: Entry[] = [
+    { tag: 0x0100, type: 4, count: 1, value: 4000 },
+    { tag: 0x0101, type: 4, count: 1, value: 3000 },
+    { tag: 0x0112, type: 3, count: 1, value: 6 },
+    { tag: 0x8769, type: 4, count: 1, value: 0 }
+  ];
+  const exifIfd: Entry[] = [
+    { tag: 0x9000, type: 7, count: 4, value: 0x30333230 },
+    { tag: 0xa002, type: 4, count: 1, value: 4000 },
+    { tag: 0xa003, type: 4, count: 1, value: 3000 }
+  ];
+  const ifd1: Entry[] = [
+    { tag: 0x0201, type: 4, count: 1, value: 0 },
+    { tag: 0x0202, type: 4, count: 1, value: thumbnailSize }
+  ];
+  const ifdSize = (entries: Entry[]) => 2 + entries.length * 12 + 4;
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0);
+  const ifd1Offset = exifOffset + ifdSize(exifIfd);
+  const thumbnailOffset = ifd1Offset + ifdSize(ifd1);
+  ifd0[3].value = exifOffset;
+  ifd1[0].value = thumbnailOffset;
+
+  const bytes = new Uint8Array(thumbnailOffset + thumbnailSize).fill(0xaa, thumbnailOffset);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49]);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifd0Offset, true);
+  const writeIfd = (offset: number, entries: Entry[], next: number) => {
+    view.setUint16(offset, entries.length, true);
+    entries.forEach((entry, i) => {
+      const at = offset + 2 + i * 12;
+      view.setUint16(at, entry.tag, true);
+      view.setUint16(at + 2, entry.type, true);
+      view.setUint32(at + 4, entry.count, true);
+      if (entry.type === 3) view.setUint16(at + 8, entry.value, true);
+      else view.setUint32(at + 8, entry.value, true);
+    });
+    view.setUint32(offset + 2 + entries.length * 12, next, true);
+  };
+  writeIfd(ifd0Offset, ifd0, ifd1Offset);
+  writeIfd(exifOffset, exifIfd, 0);
+  writeIfd(ifd1Offset, ifd1, 0);
+  return bytes;
+}
+
+function tags(bytes: Uint8Array, offset: number): number[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return Array.from({ length: view.getUint16(offset, true) }, (_, i) => view.getUint16(offset + 2 + i * 12, true));
+}
+
+describe('filterExif', () => {
+  it('drops the thumbnail and the original dimensions under the "all" policy', () => {
+    const exif = filterExif(buildExif(1000), 'all')!;
+    const view = new DataView(exif.buffer);
+    const ifd0Tags = tags(exif, 8);
+    expect(ifd0Tags).toEqual([0x0112, 0x8769]);
+    // No IFD1 link, and the thumbnail bytes are gone
+    expect(view.getUint32(8 + 2 + ifd0Tags.length * 12, true)).toBe(0);
+    expect(exif.length).toBeLessThan(200);
+    // Orientation reset to upright
+    expect(view.getUint16(8 + 2 + 8, true)).toBe(1);
+
+    const exifOffset = view.getUint32(8 + 2 + 12 + 8, true);
+    expect(tags(exif, exifOffset)).toEqual([0x9000]);
+  });
+});
+
+const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+
+// SOI, a JFIF APP0 segment and EOI
+const jfif = new Uint8Array([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+  0xff, 0xd9
+]);
+
+describe('embedExif', () => {
+  it('inserts an APP1 segment after SOI', () => {
+    const result = embedExif(jpeg, 'jpg', new Uint8Array(16));
+    expect(Array.from(result.subarray(0, 4))).toEqual([0xff, 0xd8, 0xff, 0xe1]);
+    expect(result.length).toBe(jpeg.length + 4 + 6 + 16);
+  });
+
+  it('inserts it after a JFIF APP0 segment', () => {
+    const result = embedExif(jfif, 'jpg', new Uint8Array(16));
+    expect(Array.from(result.subarray(0, jfif.length - 2))).toEqual(Array.from(jfif.subarray(0, -2)));
+    expect(Array.from(result.subarray(jfif.length - 2, jfif.length))).toEqual([0xff, 0xe1]);
+  });
+
+  it('refuses EXIF data too large for one APP1 segment', () => {
+    expect(() => embedExif(jpeg, 'jpg', new Uint8Array(70000))).toThrow(/too large/);
+  });
+});
+
+describe('embedIccProfile', () => {
+  it('inserts APP2 segments after a JFIF APP0 segment', async () => {
+    const result = await embedIccProfile(jfif, 'jpg', new Uint8Array(100), 1, 1);
+    expect(Array.from(result.subarray(0, jfif.length - 2))).toEqual(Array.from(jfif.subarray(0, -2)));
+    expect(Array.from(result.subarray(jfif.length - 2, jfif.length))).toEqual([0xff, 0xe2]);
+    expect(Array.from(result.subarray(-2))).toEqual([0xff, 0xd9]);
+  });
+});
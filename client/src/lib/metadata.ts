@@ -0,0 +1,460 @@
+import type { ImageFormat, MetadataPolicy } from '@shared/schema';
+import { createIccpChunkData, createPngChunk, findPngChunk, iccpCompressedProfile, insertPngChunk } from '@shared/png';
+
+const TAG_IMAGE_WIDTH = 0x0100;
+const TAG_IMAGE_LENGTH = 0x0101;
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_INTEROP_IFD = 0xa005;
+const TAG_PIXEL_X_DIMENSION = 0xa002;
+const TAG_PIXEL_Y_DIMENSION = 0xa003;
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+
+// Bytes per value of each TIFF field type, by type number
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+// Tags whose value is the offset of a nested IFD
+const SUB_IFD_TAGS = [TAG_EXIF_IFD, TAG_GPS_IFD, TAG_INTEROP_IFD];
+
+// Tags describing the original pixels, which no longer match an exported cutout
+const DIMENSION_TAGS = [TAG_IMAGE_WIDTH, TAG_IMAGE_LENGTH, TAG_PIXEL_X_DIMENSION, TAG_PIXEL_Y_DIMENSION];
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0, 0]; // "Exif\0\0"
+// A JPEG segment's length field is 16 bits and counts itself
+const APP1_MAX_PAYLOAD = 65535 - 2 - EXIF_HEADER.length;
+const JFIF_HEADER = [0x4a, 0x46, 0x49, 0x46, 0]; // "JFIF\0"
+const ICC_HEADER = 'ICC_PROFILE\0';
+const ICC_SEGMENT_SIZE = 65535 - 2 - ICC_HEADER.length - 2;
+const WEBP_ICC_FLAG = 0x20;
+const WEBP_ALPHA_FLAG = 0x10;
+
+// Minimal reader for the TIFF structure EXIF is stored in
+class TiffReader {
+  private view: DataView;
+  readonly littleEndian: boolean;
+
+  constructor(readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.littleEndian = bytes[0] === 0x49; // "II"
+  }
+
+  u16(offset: number) {
+    return this.view.getUint16(offset, this.littleEndian);
+  }
+
+  u32(offset: number) {
+    return this.view.getUint32(offset, this.littleEndian);
+  }
+
+  // Offsets of the 12-byte entries in the first IFD
+  ifd0Entries(): number[] {
+    return this.ifdEntries(this.u32(4));
+  }
+
+  // Offsets of the 12-byte entries in the IFD at an offset
+  ifdEntries(ifdOffset: number): number[] {
+    const count = this.u16(ifdOffset);
+    return Array.from({ length: count }, (_, i) => ifdOffset + 2 + i * 12);
+  }
+
+  // Size in bytes of an entry's value, which is stored inline when 4 or less
+  valueSize(entry: number): number {
+    return (TYPE_SIZES[this.u16(entry + 2)] ?? 1) * this.u32(entry + 4);
+  }
+
+  readAscii(entry: number): string {
+    const count = this.u32(entry + 4);
+    const start = count <= 4 ? entry + 8 : this.u32(entry + 8);
+    return new TextDecoder().decode(this.bytes.subarray(start, start + count)).replace(/\0+$/, '');
+  }
+}
+
+function chunkType(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+// Insert segments into a JPEG after the SOI marker, or after the JFIF APP0
+// segment when there is one, since JFIF must come straight after SOI
+function insertJpegSegments(bytes: Uint8Array, segments: Uint8Array[]): Uint8Array {
+  let position = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0 && JFIF_HEADER.every((byte, i) => bytes[6 + i] === byte)) {
+    position = Math.min(bytes.length, 4 + ((bytes[4] << 8) | bytes[5]));
+  }
+
+  const size = segments.reduce((total, segment) => total + segment.length, 0);
+  const result = new Uint8Array(bytes.length + size);
+  result.set(bytes.subarray(0, position));
+  segments.reduce((offset, segment) => {
+    result.set(segment, offset);
+    return offset + segment.length;
+  }, position);
+  result.set(bytes.subarray(position), position + size);
+  return result;
+}
+
+/**
+ * Extracts the EXIF TIFF payload from a JPEG, PNG or WebP file
+ * @param bytes - The encoded image file
+ */
+export function readExif(bytes: Uint8Array): Uint8Array | undefined {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // JPEG: APP1 segment starting with "Exif\0\0"
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 4 < bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      const length = view.getUint16(offset + 2);
+      if (marker === 0xda) break; // start of scan, no more metadata
+      if (marker === 0xe1 && EXIF_HEADER.every((byte, i) => bytes[offset + 4 + i] === byte)) {
+        return bytes.slice(offset + 10, offset + 2 + length);
+      }
+      offset += 2 + length;
+    }
+    return undefined;
+  }
+
+  // PNG: eXIf chunk
+  if (bytes[0] === 0x89 && chunkType(bytes, 1).startsWith('PNG')) {
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset);
+      if (chunkType(bytes, offset + 4) === 'eXIf') {
+        return bytes.slice(offset + 8, offset + 8 + length);
+      }
+      offset += 12 + length;
+    }
+    return undefined;
+  }
+
+  // WebP: EXIF chunk inside the RIFF container
+  if (chunkType(bytes, 0) === 'RIFF' && chunkType(bytes, 8) === 'WEBP') {
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset + 4, true);
+      if (chunkType(bytes, offset) === 'EXIF') {
+        return bytes.slice(offset + 8, offset + 8 + length);
+      }
+      offset += 8 + length + (length % 2);
+    }
+  }
+
+  return undefined;
+}
+
+// Build a little-endian TIFF holding only the given ASCII tags in IFD0
+function buildAsciiExif(tags: Array<[number, string]>): Uint8Array {
+  const encoded = tags
+    .sort(([a], [b]) => a - b)
+    .map(([tag, value]) => [tag, new TextEncoder().encode(`${value}\0`)] as const);
+  const ifdSize = 2 + encoded.length * 12 + 4;
+  const dataSize = encoded.reduce((total, [, value]) => total + (value.length > 4 ? value.length : 0), 0);
+  const bytes = new Uint8Array(8 + ifdSize + dataSize);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set([0x49, 0x49]);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, encoded.length, true);
+
+  let dataOffset = 8 + ifdSize;
+  encoded.forEach(([tag, value], i) => {
+    const entry = 10 + i * 12;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, TYPE_ASCII, true);
+    view.setUint32(entry + 4, value.length, true);
+    if (value.length <= 4) {
+      bytes.set(value, entry + 8);
+    } else {
+      view.setUint32(entry + 8, dataOffset, true);
+      bytes.set(value, dataOffset);
+      dataOffset += value.length;
+    }
+  });
+
+  return bytes;
+}
+
+/**
+ * Rewrites an IFD in place without the dimension tags, and with its link to
+ * a following IFD cleared, recursing into the Exif, GPS and interoperability
+ * IFDs. Returns the end of the furthest data the IFDs still refer to.
+ */
+function pruneIfd(reader: TiffReader, view: DataView, ifdOffset: number, visited = new Set<number>()): number {
+  // A malformed file could link IFDs in a loop
+  if (visited.has(ifdOffset)) return 0;
+  visited.add(ifdOffset);
+
+  const entries = reader.ifdEntries(ifdOffset);
+  const kept: Uint8Array[] = [];
+  let end = ifdOffset + 2 + entries.length * 12 + 4;
+
+  for (const entry of entries) {
+    const tag = reader.u16(entry);
+    if (DIMENSION_TAGS.includes(tag)) continue;
+    kept.push(reader.bytes.slice(entry, entry + 12));
+
+    const size = reader.valueSize(entry);
+    if (SUB_IFD_TAGS.includes(tag)) {
+      end = Math.max(end, pruneIfd(reader, view, reader.u32(entry + 8), visited));
+    } else if (size > 4) {
+      end = Math.max(end, reader.u32(entry + 8) + size);
+    }
+  }
+
+  view.setUint16(ifdOffset, kept.length, reader.littleEndian);
+  kept.forEach((entry, i) => reader.bytes.set(entry, ifdOffset + 2 + i * 12));
+  view.setUint32(ifdOffset + 2 + kept.length * 12, 0, reader.littleEndian);
+  return end;
+}
+
+/**
+ * Reduces EXIF data to what a metadata policy allows. Pixels are always
+ * exported upright, so a kept Orientation tag is reset to 1. The thumbnail
+ * in IFD1 and the original's pixel dimensions would describe the original
+ * rather than the export, so they are dropped.
+ * @param exif - The source EXIF TIFF payload
+ * @param policy - The metadata policy to apply
+ */
+export function filterExif(exif: Uint8Array, policy: MetadataPolicy): Uint8Array | undefined {
+  if (policy === 'strip') return undefined;
+
+  const reader = new TiffReader(exif);
+  const entries = reader.ifd0Entries();
+
+  if (policy === 'copyright') {
+    const tags: Array<[number, string]> = [];
+    for (const entry of entries) {
+      const tag = reader.u16(entry);
+      if ((tag === TAG_ARTIST || tag === TAG_COPYRIGHT) && reader.u16(entry + 2) === TYPE_ASCII) {
+        const value = reader.readAscii(entry);
+        if (value) tags.push([tag, value]);
+      }
+    }
+    return tags.length > 0 ? buildAsciiExif(tags) : undefined;
+  }
+
+  const copy = exif.slice();
+  const view = new DataView(copy.buffer);
+  const copyReader = new TiffReader(copy);
+  const end = pruneIfd(copyReader, view, copyReader.u32(4));
+  for (const entry of copyReader.ifd0Entries()) {
+    if (copyReader.u16(entry) === TAG_ORIENTATION && copyReader.u16(entry + 2) === TYPE_SHORT) {
+      view.setUint16(entry + 8, 1, copyReader.littleEndian);
+    }
+  }
+  // The thumbnail usually sits after everything else, so trimming there drops its bytes too
+  return copy.slice(0, end);
+}
+
+/**
+ * Writes an EXIF TIFF payload into an encoded JPEG or PNG. Other formats are
+ * returned unchanged, since browsers can't add metadata to them. Throws if
+ * the payload doesn't fit in a JPEG's single APP1 segment.
+ * @param bytes - The encoded image file
+ * @param format - The image format
+ * @param exif - The EXIF TIFF payload
+ */
+export function embedExif(bytes: Uint8Array, format: ImageFormat, exif: Uint8Array): Uint8Array {
+  if (format === 'jpg') {
+    if (exif.length > APP1_MAX_PAYLOAD) {
+      throw new Error(`EXIF data of ${exif.length} bytes is too large for a JPEG APP1 segment`);
+    }
+    // APP1 segment after the SOI marker and any JFIF header
+    const segment = new Uint8Array(4 + EXIF_HEADER.length + exif.length);
+    const view = new DataView(segment.buffer);
+    view.setUint16(0, 0xffe1);
+    view.setUint16(2, segment.length - 2);
+    segment.set(EXIF_HEADER, 4);
+    segment.set(exif, 4 + EXIF_HEADER.length);
+    return insertJpegSegments(bytes, [segment]);
+  }
+
+  if (format === 'png') {
+    return insertPngChunk(bytes, createPngChunk('eXIf', exif));
+  }
+
+  return bytes;
+}
+
+// Run bytes through a zlib CompressionStream or DecompressionStream
+async function transformZlib(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const response = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Extracts the embedded ICC colour profile from a JPEG, PNG or WebP file
+ * @param bytes - The encoded image file
+ */
+export async function readIccProfile(bytes: Uint8Array): Promise<Uint8Array | undefined> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // JPEG: one or more APP2 "ICC_PROFILE" segments, numbered from 1
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    const parts: Uint8Array[] = [];
+    let offset = 2;
+    while (offset + 4 < bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      const length = view.getUint16(offset + 2);
+      if (marker === 0xda) break;
+      if (marker === 0xe2 && String.fromCharCode(...Array.from(bytes.subarray(offset + 4, offset + 16))) === ICC_HEADER) {
+        parts[bytes[offset + 16] - 1] = bytes.subarray(offset + 18, offset + 2 + length);
+      }
+      offset += 2 + length;
+    }
+    if (parts.length === 0 || parts.some((part) => !part)) return undefined;
+
+    const profile = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    parts.reduce((position, part) => {
+      profile.set(part, position);
+      return position + part.length;
+    }, 0);
+    return profile;
+  }
+
+  // PNG: zlib-compressed iCCP chunk
+  if (bytes[0] === 0x89 && chunkType(bytes, 1).startsWith('PNG')) {
+    const chunk = findPngChunk(bytes, 'iCCP');
+    return chunk && transformZlib(iccpCompressedProfile(chunk), new DecompressionStream('deflate'));
+  }
+
+  // WebP: ICCP chunk inside the RIFF container
+  if (chunkType(bytes, 0) === 'RIFF' && chunkType(bytes, 8) === 'WEBP') {
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset + 4, true);
+      if (chunkType(bytes, offset) === 'ICCP') {
+        return bytes.slice(offset + 8, offset + 8 + length);
+      }
+      offset += 8 + length + (length % 2);
+    }
+  }
+
+  return undefined;
+}
+
+// Rewrite a WebP so its first chunk is a VP8X header announcing an ICCP chunk after it
+function embedWebpIccProfile(bytes: Uint8Array, profile: Uint8Array, width: number, height: number): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let header: Uint8Array;
+  let rest: Uint8Array;
+
+  if (chunkType(bytes, 12) === 'VP8X') {
+    header = bytes.slice(12, 30);
+    header[8] |= WEBP_ICC_FLAG;
+    rest = bytes.subarray(30);
+  } else {
+    // Simple lossy or lossless file: lossless bitstreams record whether alpha is used
+    const hasAlpha = chunkType(bytes, 12) === 'VP8L' && ((view.getUint32(21, true) >>> 28) & 1) === 1;
+    header = new Uint8Array(18);
+    const headerView = new DataView(header.buffer);
+    header.set(new TextEncoder().encode('VP8X'));
+    headerView.setUint32(4, 10, true);
+    header[8] = WEBP_ICC_FLAG | (hasAlpha ? WEBP_ALPHA_FLAG : 0);
+    // Canvas width and height minus one, as 24-bit little-endian values
+    headerView.setUint16(12, (width - 1) & 0xffff, true);
+    header[14] = (width - 1) >>> 16;
+    headerView.setUint16(15, (height - 1) & 0xffff, true);
+    header[17] = (height - 1) >>> 16;
+    rest = bytes.subarray(12);
+  }
+
+  const iccChunk = new Uint8Array(8 + profile.length + (profile.length % 2));
+  const iccView = new DataView(iccChunk.buffer);
+  iccChunk.set(new TextEncoder().encode('ICCP'));
+  iccView.setUint32(4, profile.length, true);
+  iccChunk.set(profile, 8);
+
+  const result = new Uint8Array(12 + header.length + iccChunk.length + rest.length);
+  result.set(bytes.subarray(0, 12));
+  result.set(header, 12);
+  result.set(iccChunk, 12 + header.length);
+  result.set(rest, 12 + header.length + iccChunk.length);
+  new DataView(result.buffer).setUint32(4, result.length - 8, true);
+  return result;
+}
+
+/**
+ * Tags an encoded JPEG, PNG or WebP with an ICC colour profile, without
+ * touching its pixels. Other formats are returned unchanged.
+ * @param bytes - The encoded image file
+ * @param format - The image format
+ * @param profile - The ICC profile
+ * @param width - Image width, needed to build a WebP extended header
+ * @param height - Image height, needed to build a WebP extended header
+ */
+export async function embedIccProfile(
+  bytes: Uint8Array,
+  format: ImageFormat,
+  profile: Uint8Array,
+  width: number,
+  height: number
+): Promise<Uint8Array> {
+  if (format === 'jpg') {
+    // APP2 segments after the SOI marker and any JFIF header, split where the profile is too large for one
+    const count = Math.ceil(profile.length / ICC_SEGMENT_SIZE);
+    const segments = Array.from({ length: count }, (_, i) => {
+      const part = profile.subarray(i * ICC_SEGMENT_SIZE, (i + 1) * ICC_SEGMENT_SIZE);
+      const segment = new Uint8Array(4 + ICC_HEADER.length + 2 + part.length);
+      const view = new DataView(segment.buffer);
+      view.setUint16(0, 0xffe2);
+      view.setUint16(2, segment.length - 2);
+      segment.set(new TextEncoder().encode(ICC_HEADER), 4);
+      segment[4 + ICC_HEADER.length] = i + 1;
+      segment[5 + ICC_HEADER.length] = count;
+      segment.set(part, 6 + ICC_HEADER.length);
+      return segment;
+    });
+    return insertJpegSegments(bytes, segments);
+  }
+
+  if (format === 'png') {
+    const compressed = await transformZlib(profile, new CompressionStream('deflate'));
+    return insertPngChunk(bytes, createPngChunk('iCCP', createIccpChunkData(compressed)));
+  }
+
+  if (format === 'webp') {
+    return embedWebpIccProfile(bytes, profile, width, height);
+  }
+
+  return bytes;
+}
+
+/**
+ * Copies metadata from the original upload into an exported image, as far
+ * as the policy allows. Colour profiles are handled separately by exportImage.
+ * @param blob - The exported image
+ * @param format - The exported image format
+ * @param sourceUrl - URL of the original upload
+ * @param policy - The metadata policy to apply
+ */
+export async function applyMetadataPolicy(
+  blob: Blob,
+  format: ImageFormat,
+  sourceUrl: string,
+  policy: MetadataPolicy
+): Promise<Blob> {
+  if (policy === 'strip' || (format !== 'jpg' && format !== 'png')) {
+    return blob;
+  }
+
+  try {
+    const source = new Uint8Array(await (await fetch(sourceUrl)).arrayBuffer());
+    const sourceExif = readExif(source);
+    const exif = sourceExif && filterExif(sourceExif, policy);
+    if (!exif) {
+      return blob;
+    }
+
+    const bytes = embedExif(new Uint8Array(await blob.arrayBuffer()), format, exif);
+    return new Blob([bytes], { type: blob.type });
+  } catch (error) {
+    console.warn('Could not copy metadata from the original image:', error);
+    return blob;
+  }
+}
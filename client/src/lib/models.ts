@@ -0,0 +1,258 @@
+import * as bodyPix from '@tensorflow-models/body-pix';
+import * as tf from '@tensorflow/tfjs';
+import * as ort from 'onnxruntime-web';
+import type { BackgroundRemovalModel } from '@shared/schema';
+import type { RgbaImage } from '@/lib/segmentation';
+
+/**
+ * A loaded model's run function: the foreground probability (0-1) of every
+ * pixel of the input, row by row
+ */
+export type SegmentFunction = (input: RgbaImage) => Promise<Float32Array>;
+
+/**
+ * A loaded model's per-person run function: which person every pixel of the
+ * input belongs to, 0 for none and then 1 up to count, and with withParts
+ * which body part, 0 for none and then BodyPix's part id plus 1, row by row
+ */
+export type InstanceFunction = (
+  input: RgbaImage,
+  withParts: boolean
+) => Promise<{ labels: Uint8Array; count: number; parts?: Uint8Array }>;
+
+// Most people told apart in one image
+const MAX_PEOPLE = 10;
+
+// ONNX weights are served by the app as /models/<id>.onnx
+const MODEL_BASE_URL = '/models';
+
+// Input size and per-channel normalisation of an ONNX salient object model
+interface OnnxPreprocessing {
+  size: number;
+  mean: number[];
+  std: number[];
+}
+
+const U2NET_PREPROCESSING: OnnxPreprocessing = {
+  size: 320,
+  mean: [0.485, 0.456, 0.406],
+  std: [0.229, 0.224, 0.225]
+};
+
+// IS-Net works at a higher resolution, which keeps product edges crisp
+const ISNET_PREPROCESSING: OnnxPreprocessing = {
+  size: 1024,
+  mean: [0.5, 0.5, 0.5],
+  std: [1, 1, 1]
+};
+
+/**
+ * An image's RGB channels as an int32 tensor, the input tf.browser.fromPixels
+ * would give, without needing a canvas or a DOM
+ * @param input - The image's RGBA pixels
+ */
+function rgbTensor(input: RgbaImage): tf.Tensor3D {
+  return tf.tidy(() => {
+    const bytes = new Uint8Array(input.data.buffer, input.data.byteOffset, input.data.length);
+    return tf.tensor3d(bytes, [input.height, input.width, 4], 'int32').slice([0, 0, 0], [-1, -1, 3]);
+  });
+}
+
+let bodyPixNet: Promise<bodyPix.BodyPix> | null = null;
+
+// The BodyPix network, shared by whole-image and per-person segmentation
+function loadBodyPixNet(): Promise<bodyPix.BodyPix> {
+  if (!bodyPixNet) {
+    bodyPixNet = bodyPix.load({
+      architecture: 'MobileNetV1',
+      outputStride: 16,
+      multiplier: 1.0, // बेहतर accuracy के लिए 1.0 किया
+      quantBytes: 2
+    });
+    bodyPixNet.then(() => console.log('BodyPix model loaded successfully'), () => {
+      bodyPixNet = null;
+    });
+  }
+  return bodyPixNet;
+}
+
+/**
+ * Loads BodyPix, which segments people only
+ */
+async function loadBodyPix(): Promise<SegmentFunction> {
+  const model = await loadBodyPixNet();
+
+  // segmentPerson only returns a 0/1 mask, so run the network directly for probabilities
+  return async (input) => {
+    const outputStride = model.baseModel.outputStride;
+    // segmentPerson's 'high' internal resolution (75%), snapped to a size the network accepts
+    const toValidSize = (size: number) => Math.floor((size * 0.75) / outputStride) * outputStride + 1;
+    const targetSize: [number, number] = [toValidSize(input.height), toValidSize(input.width)];
+
+    const probabilities = tf.tidy(() => {
+      const { resizedAndPadded, paddedBy } = bodyPix.resizeAndPadTo(rgbTensor(input), targetSize);
+      const { segmentation } = model.baseModel.predict(resizedAndPadded);
+      return bodyPix.scaleAndCropToInputTensorShape(segmentation, [input.height, input.width], targetSize, paddedBy, true);
+    });
+
+    const data = await probabilities.data() as Float32Array;
+    probabilities.dispose();
+    return data;
+  };
+}
+
+/**
+ * Loads a salient object model (U²-Net, IS-Net) with ONNX Runtime,
+ * preprocessing the same way as the server's backgroundremover and rembg
+ * @param id - The model file name
+ * @param preprocessing - The model's input size and normalisation
+ */
+async function loadOnnxModel(id: BackgroundRemovalModel, preprocessing: OnnxPreprocessing): Promise<SegmentFunction> {
+  const session = await ort.InferenceSession.create(`${MODEL_BASE_URL}/${id}.onnx`);
+  console.log(`${id} model loaded successfully`);
+
+  return async (input) => {
+    const { size, mean, std } = preprocessing;
+    const resized = tf.tidy(() => tf.image.resizeBilinear(rgbTensor(input), [size, size]));
+    const data = await resized.data();
+    resized.dispose();
+
+    // Scale by the brightest value, then normalise each channel into planar RGB
+    let max = 1;
+    for (let i = 0; i < data.length; i++) {
+      max = Math.max(max, data[i]);
+    }
+    const pixels = size * size;
+    const tensorData = new Float32Array(3 * pixels);
+    for (let i = 0; i < pixels; i++) {
+      for (let c = 0; c < 3; c++) {
+        tensorData[c * pixels + i] = (data[i * 3 + c] / max - mean[c]) / std[c];
+      }
+    }
+
+    const outputs = await session.run({
+      [session.inputNames[0]]: new ort.Tensor('float32', tensorData, [1, 3, size, size])
+    });
+    const prediction = outputs[session.outputNames[0]].data as Float32Array;
+
+    // Stretch the prediction to 0-1, then resize it back to the input
+    let low = Infinity;
+    let high = -Infinity;
+    for (let i = 0; i < prediction.length; i++) {
+      low = Math.min(low, prediction[i]);
+      high = Math.max(high, prediction[i]);
+    }
+    const range = high - low || 1;
+    const normalised = prediction.map((value) => (value - low) / range);
+
+    const upscaled = tf.tidy(() =>
+      tf.image.resizeBilinear(tf.tensor3d(normalised, [size, size, 1]), [input.height, input.width])
+    );
+    const probabilities = await upscaled.data() as Float32Array;
+    upscaled.dispose();
+    return probabilities;
+  };
+}
+
+// Models whose ONNX weights couldn't be fetched, which BodyPix stands in for
+const fallbackModels = new Set<BackgroundRemovalModel>();
+
+/**
+ * Loads an ONNX model, falling back to BodyPix when its weights can't be
+ * fetched. The weights aren't part of the repository (see the README), and
+ * without them removal should still work, if only for people.
+ * @param id - The model file name
+ * @param preprocessing - The model's input size and normalisation
+ */
+async function loadOnnxModelOrBodyPix(id: BackgroundRemovalModel, preprocessing: OnnxPreprocessing): Promise<SegmentFunction> {
+  try {
+    const model = await loadOnnxModel(id, preprocessing);
+    fallbackModels.delete(id);
+    return model;
+  } catch (error) {
+    console.warn(`Could not load the ${id} weights, using BodyPix instead:`, error);
+    fallbackModels.add(id);
+    return loadBodyPix();
+  }
+}
+
+/**
+ * Whether a loaded model is BodyPix standing in for missing ONNX weights
+ * @param id - The selected model
+ */
+export function isFallbackModel(id: BackgroundRemovalModel): boolean {
+  return fallbackModels.has(id);
+}
+
+// How each selectable model is loaded. The people-only model uses BodyPix,
+// which is fetched from TF Hub rather than served by the app.
+const modelLoaders: Record<BackgroundRemovalModel, () => Promise<SegmentFunction>> = {
+  u2net: () => loadOnnxModelOrBodyPix('u2net', U2NET_PREPROCESSING),
+  u2netp: () => loadOnnxModelOrBodyPix('u2netp', U2NET_PREPROCESSING),
+  u2net_human_seg: loadBodyPix,
+  'isnet-general-use': () => loadOnnxModelOrBodyPix('isnet-general-use', ISNET_PREPROCESSING)
+};
+
+/**
+ * Loads per-person and body part segmentation for the models that can tell
+ * people apart, which is only BodyPix; resolves with null for the others
+ * @param id - The selected model
+ */
+export async function loadInstanceModel(id: BackgroundRemovalModel): Promise<InstanceFunction | null> {
+  if (id !== 'u2net_human_seg') {
+    return null;
+  }
+  const model = await loadBodyPixNet();
+
+  return async (input, withParts) => {
+    const pixels = rgbTensor(input);
+    const config = { internalResolution: 'medium', maxDetections: MAX_PEOPLE } as const;
+    // Where instance masks overlap, the more confident person keeps the pixel
+    const labels = new Uint8Array(input.width * input.height);
+    try {
+      if (!withParts) {
+        const people = await model.segmentMultiPerson(pixels, config);
+        people.forEach((person, index) => {
+          for (let i = 0; i < labels.length; i++) {
+            if (person.data[i] === 1 && labels[i] === 0) labels[i] = index + 1;
+          }
+        });
+        return { labels, count: people.length };
+      }
+
+      const people = await model.segmentMultiPersonParts(pixels, config);
+      const parts = new Uint8Array(input.width * input.height);
+      people.forEach((person, index) => {
+        for (let i = 0; i < labels.length; i++) {
+          if (person.data[i] !== -1 && labels[i] === 0) {
+            labels[i] = index + 1;
+            parts[i] = person.data[i] + 1;
+          }
+        }
+      });
+      return { labels, count: people.length, parts };
+    } finally {
+      pixels.dispose();
+    }
+  };
+}
+
+const loadedModels = new Map<BackgroundRemovalModel, Promise<SegmentFunction>>();
+
+/**
+ * Loads a segmentation model, once per model id
+ * @param id - The model to load
+ */
+export function loadModel(id: BackgroundRemovalModel): Promise<SegmentFunction> {
+  let model = loadedModels.get(id);
+  if (!model) {
+    model = modelLoaders[id]();
+    loadedModels.set(id, model);
+    // Let a failed load be retried
+    model.catch((error) => {
+      console.error(`Failed to load ${id} model:`, error);
+      loadedModels.delete(id);
+    });
+  }
+  return model;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { growLabels } from '@/lib/people';
+
+describe('growLabels', () => {
+  it('covers the edge but leaves something held, like a bag, unlabelled', () => {
+    // One row: a person at 0-9, then visible pixels out to 29, then background
+    const width = 40;
+    const labels = new Uint8Array(width);
+    const mask = new Uint8Array(width);
+    labels.fill(3, 0, 10);
+    mask.fill(255, 0, 30);
+
+    growLabels(labels, mask, width, 1, 4);
+
+    expect(Array.from(labels.subarray(10, 14))).toEqual([3, 3, 3, 3]);
+    expect(Array.from(labels.subarray(14, 30)).every((label) => label === 0)).toBe(true);
+    expect(labels[35]).toBe(0);
+  });
+
+  it('drops labels the cutout removed', () => {
+    const labels = new Uint8Array([1, 1, 1, 1]);
+    const mask = new Uint8Array([255, 0, 255, 0]);
+
+    growLabels(labels, mask, 4, 1, 4);
+
+    expect(Array.from(labels)).toEqual([1, 0, 1, 0]);
+  });
+});
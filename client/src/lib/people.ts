@@ -0,0 +1,176 @@
+/**
+ * The people found in an image: every pixel's person, 0 for none and then
+ * 1 up to count, row by row
+ */
+export interface PersonInstances {
+  labels: Uint8Array;
+  width: number;
+  height: number;
+  count: number;
+}
+
+// Outline colours, one per person in turn
+export const PERSON_COLOURS: [number, number, number][] = [
+  [239, 68, 68],
+  [59, 130, 246],
+  [34, 197, 94],
+  [234, 179, 8],
+  [168, 85, 247],
+  [236, 72, 153],
+  [20, 184, 166],
+  [249, 115, 22],
+  [99, 102, 241],
+  [132, 204, 22]
+];
+
+/**
+ * Resizes a label map, nearest neighbour so labels are never blended
+ * @param labels - Each pixel's label, row by row
+ * @param width - The map's width
+ * @param height - The map's height
+ * @param targetWidth - The width to resize to
+ * @param targetHeight - The height to resize to
+ */
+export function resizeLabels(labels: Uint8Array, width: number, height: number, targetWidth: number, targetHeight: number): Uint8Array {
+  const result = new Uint8Array(targetWidth * targetHeight);
+  for (let y = 0; y < targetHeight; y++) {
+    const sy = Math.min(height - 1, Math.floor(((y + 0.5) * height) / targetHeight));
+    for (let x = 0; x < targetWidth; x++) {
+      const sx = Math.min(width - 1, Math.floor(((x + 0.5) * width) / targetWidth));
+      result[y * targetWidth + x] = labels[sy * width + sx];
+    }
+  }
+  return result;
+}
+
+/**
+ * Fits a label map to the cutout: each label's region grows outwards through
+ * the visible pixels it touches, by up to maxDistance pixels, and pixels the
+ * cutout removed are dropped. Model label maps are hard-edged and slightly
+ * inside the soft alpha edge, which would otherwise leave a halo behind when
+ * a region is removed. Growth stops short of visible pixels further out, so
+ * something held, like a bag, stays nobody's rather than taking the label
+ * of whatever it touches.
+ * @param labels - Each pixel's label, 0 for none, updated in place
+ * @param mask - The cutout's alpha mask
+ * @param width - The image width
+ * @param height - The image height
+ * @param maxDistance - How far a region may grow, in pixels
+ */
+export function growLabels(labels: Uint8Array, mask: Uint8Array, width: number, height: number, maxDistance: number) {
+  // Breadth-first from every labelled pixel at once, so each pixel goes to the nearest region
+  const queue = new Int32Array(labels.length);
+  let tail = 0;
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] !== 0) queue[tail++] = i;
+  }
+
+  // One ring of pixels further out per step
+  let head = 0;
+  for (let distance = 0; distance < maxDistance && head < tail; distance++) {
+    const ringEnd = tail;
+    for (; head < ringEnd; head++) {
+      const i = queue[head];
+      const x = i % width;
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        i >= width ? i - width : -1,
+        i < (height - 1) * width ? i + width : -1
+      ];
+      for (const j of neighbours) {
+        if (j !== -1 && labels[j] === 0 && mask[j] > 0) {
+          labels[j] = labels[i];
+          queue[tail++] = j;
+        }
+      }
+    }
+  }
+
+  for (let i = 0; i < labels.length; i++) {
+    if (mask[i] === 0) labels[i] = 0;
+  }
+}
+
+/**
+ * Fits people's regions to the cutout with growLabels. People left with no
+ * visible pixels are dropped and the rest renumbered.
+ * @param labels - Each pixel's person, updated in place
+ * @param mask - The cutout's alpha mask
+ * @param width - The image width
+ * @param height - The image height
+ * @param maxDistance - How far a person's region may grow, in pixels
+ * @returns The number of people left
+ */
+export function fitLabelsToMask(labels: Uint8Array, mask: Uint8Array, width: number, height: number, maxDistance: number): number {
+  growLabels(labels, mask, width, height, maxDistance);
+
+  // Renumber the people still visible in order
+  const renumbered = new Uint8Array(256);
+  let count = 0;
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] !== 0) {
+      if (renumbered[labels[i]] === 0) renumbered[labels[i]] = ++count;
+      labels[i] = renumbered[labels[i]];
+    }
+  }
+  return count;
+}
+
+/**
+ * Makes the people not kept transparent, in place. Visible pixels that
+ * belong to nobody are left as they are.
+ * @param pixels - The cutout's RGBA pixels
+ * @param people - The people found in the image
+ * @param kept - The people to keep, numbered from 1
+ */
+export function keepPeople(pixels: Uint8ClampedArray, people: PersonInstances, kept: ReadonlySet<number>) {
+  const { labels } = people;
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] !== 0 && !kept.has(labels[i])) {
+      pixels[i * 4 + 3] = 0;
+    }
+  }
+}
+
+/**
+ * Draws every person's outline in their colour, at most maxSide pixels on
+ * the longer side so outlines stay visible when the image is shown small
+ * @param people - The people found in the image
+ * @param maxSide - The longest side of the drawing
+ */
+export function drawOutlines(people: PersonInstances, maxSide: number): ImageData {
+  const scale = Math.min(1, maxSide / Math.max(people.width, people.height));
+  const width = Math.max(1, Math.round(people.width * scale));
+  const height = Math.max(1, Math.round(people.height * scale));
+
+  // Nearest-neighbour downscale of the labels
+  const labels = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(people.height - 1, Math.floor((y + 0.5) / scale));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(people.width - 1, Math.floor((x + 0.5) / scale));
+      labels[y * width + x] = people.labels[sy * people.width + sx];
+    }
+  }
+
+  const outlines = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const label = labels[i];
+      if (label === 0) continue;
+      // An edge pixel borders another label or the image border
+      const edge = x === 0 || y === 0 || x === width - 1 || y === height - 1
+        || labels[i - 1] !== label || labels[i + 1] !== label
+        || labels[i - width] !== label || labels[i + width] !== label;
+      if (!edge) continue;
+      const [r, g, b] = PERSON_COLOURS[(label - 1) % PERSON_COLOURS.length];
+      outlines.data[i * 4] = r;
+      outlines.data[i * 4 + 1] = g;
+      outlines.data[i * 4 + 2] = b;
+      outlines.data[i * 4 + 3] = 255;
+    }
+  }
+  return outlines;
+}
@@ -0,0 +1,146 @@
+import * as tf from '@tensorflow/tfjs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import type { InstanceFunction, SegmentFunction } from '@/lib/models';
+import { applySegmentation, cutOut, findPeople, segmentImage, type RgbaImage } from '@/lib/segmentation';
+import { selectBackend } from '@/lib/tfBackend';
+
+// Black image with white squares, each [x, y, side]
+function squares(width: number, height: number, rects: [number, number, number][]): RgbaImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data[i * 4 + 3] = 255;
+  }
+  for (const [left, top, side] of rects) {
+    for (let y = top; y < top + side; y++) {
+      for (let x = left; x < left + side; x++) {
+        data.fill(255, (y * width + x) * 4, (y * width + x) * 4 + 3);
+      }
+    }
+  }
+  return { data, width, height };
+}
+
+function alphaAt(image: RgbaImage, x: number, y: number): number {
+  return image.data[(y * image.width + x) * 4 + 3];
+}
+
+// Stands in for a model: brightness as foreground probability, run with TensorFlow.js
+const brightness: SegmentFunction = async (input) => {
+  const probabilities = tf.tidy(() =>
+    tf.tensor3d(new Uint8Array(input.data), [input.height, input.width, 4], 'int32')
+      .slice([0, 0, 0], [-1, -1, 3])
+      .mean(2)
+      .div(255)
+  );
+  const data = await probabilities.data() as Float32Array;
+  probabilities.dispose();
+  return data;
+};
+
+describe('cutOut', () => {
+  beforeAll(async () => {
+    expect(await selectBackend('cpu')).toBe('cpu');
+  });
+
+  it('makes the background transparent and keeps the subject', async () => {
+    const image = squares(64, 48, [[16, 12, 20]]);
+    const stages: string[] = [];
+    await cutOut(image, {}, brightness, null, { onStage: (stage) => stages.push(stage) });
+
+    expect(alphaAt(image, 26, 22)).toBe(255);
+    expect(alphaAt(image, 2, 2)).toBe(0);
+    expect(stages).toEqual(['segmented', 'matted']);
+  });
+
+  it('segments only inside a box', async () => {
+    const image = squares(64, 48, [[4, 4, 12], [40, 28, 12]]);
+    const sizes: [number, number][] = [];
+    const segment: SegmentFunction = (input) => {
+      sizes.push([input.width, input.height]);
+      return brightness(input);
+    };
+    await cutOut(image, { box: { x: 0.5, y: 0.5, width: 0.5, height: 0.5 } }, segment, null);
+
+    expect(sizes).toEqual([[32, 24]]);
+    expect(alphaAt(image, 45, 33)).toBe(255);
+    expect(alphaAt(image, 9, 9)).toBe(0);
+  });
+
+  it('segments a downscaled copy when refining edges', async () => {
+    const image = squares(1200, 60, [[100, 10, 40]]);
+    const sizes: [number, number][] = [];
+    const segment: SegmentFunction = (input) => {
+      sizes.push([input.width, input.height]);
+      return brightness(input);
+    };
+    await cutOut(image, { refineEdges: true }, segment, null);
+
+    expect(sizes).toEqual([[1024, 51]]);
+    expect(alphaAt(image, 120, 30)).toBe(255);
+    expect(alphaAt(image, 600, 30)).toBe(0);
+  });
+
+  it('fits the people found to the cutout', async () => {
+    const image = squares(64, 48, [[4, 4, 12], [40, 28, 12]]);
+    // Two people, each a few pixels inside their square
+    const segmentPeople: InstanceFunction = async (input) => {
+      const labels = new Uint8Array(input.width * input.height);
+      for (let y = 0; y < input.height; y++) {
+        for (let x = 0; x < input.width; x++) {
+          if (x >= 6 && x < 14 && y >= 6 && y < 14) labels[y * input.width + x] = 1;
+          if (x >= 42 && x < 50 && y >= 30 && y < 38) labels[y * input.width + x] = 2;
+        }
+      }
+      return { labels, count: 2, parts: labels.slice() };
+    };
+    const { people, parts } = await cutOut(image, { bodyParts: true }, brightness, segmentPeople);
+
+    expect(people?.count).toBe(2);
+    expect(people?.labels[4 * 64 + 4]).toBe(1);
+    expect(people?.labels[39 * 64 + 51]).toBe(2);
+    expect(people?.labels[0]).toBe(0);
+    expect(parts?.[4 * 64 + 4]).toBe(1);
+  });
+
+  it('tells people apart on a bounded copy and scales their labels back up', async () => {
+    const image = squares(2048, 64, [[0, 0, 64]]);
+    const sizes: [number, number][] = [];
+    // Everything in the left quarter is one person
+    const segmentPeople: InstanceFunction = async (input) => {
+      sizes.push([input.width, input.height]);
+      const labels = new Uint8Array(input.width * input.height);
+      for (let i = 0; i < labels.length; i++) {
+        if (i % input.width < input.width / 4) labels[i] = 1;
+      }
+      return { labels, count: 1, parts: labels.slice() };
+    };
+    const segmentation = await findPeople(image, await segmentImage(image, {}, brightness), segmentPeople, true);
+
+    expect(sizes).toEqual([[1024, 32]]);
+    expect(segmentation.labels).toHaveLength(2048 * 64);
+    expect(segmentation.labels?.[10 * 2048 + 500]).toBe(1);
+    expect(segmentation.labels?.[10 * 2048 + 520]).toBe(0);
+  });
+
+  it('applies points to a kept segmentation without running the model again', async () => {
+    const image = squares(64, 48, [[4, 4, 12], [40, 28, 12]]);
+    let runs = 0;
+    const segment: SegmentFunction = (input) => {
+      runs++;
+      return brightness(input);
+    };
+    const segmentation = await segmentImage(image, {}, segment);
+    const probabilities = segmentation.probabilities.slice();
+
+    const unprompted = { ...image, data: image.data.slice() };
+    applySegmentation(unprompted, segmentation, {});
+    const prompted = { ...image, data: image.data.slice() };
+    applySegmentation(prompted, segmentation, { points: [{ x: 10 / 64, y: 10 / 48, label: 'background' }] });
+
+    expect(runs).toBe(1);
+    expect(segmentation.probabilities).toEqual(probabilities);
+    expect(alphaAt(unprompted, 10, 10)).toBe(255);
+    expect(alphaAt(prompted, 10, 10)).toBe(0);
+    expect(alphaAt(prompted, 45, 33)).toBe(255);
+  });
+});
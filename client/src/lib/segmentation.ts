@@ -0,0 +1,252 @@
+import type { ProcessingStage } from '@shared/schema';
+import { COARSE_MAX_SIDE, downsample, refineProbabilities } from '@shared/matting';
+import { applyPointPrompts, boxRegion, pasteRegion, pointsInRegion, type Region } from '@shared/prompts';
+import { segmentTiled, shouldTile } from '@shared/tiling';
+import { applyMask, createMask, type RemoveBackgroundSettings } from '@/lib/cutout';
+import type { InstanceFunction, SegmentFunction } from '@/lib/models';
+import { fitLabelsToMask, growLabels, resizeLabels } from '@/lib/people';
+
+// The cut-out pipeline on raw pixels. It needs no canvas or image bitmaps,
+// so it runs in the worker and, on TensorFlow.js's CPU backend, in Node.
+
+// People are told apart on a copy no larger than this on its longest side,
+// which keeps the per-person model within GPU memory on large photos
+const PEOPLE_MAX_SIDE = 1024;
+
+// How far people and part labels grow to cover the soft alpha edge, in
+// pixels of the copy the per-person model saw
+const LABEL_HALO = 4;
+
+/**
+ * An image's RGBA pixels, row by row. ImageData is one.
+ */
+export interface RgbaImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * The people found while cutting out an image, with the labels fitted to
+ * the cutout's mask
+ */
+export interface CutOutPeople {
+  people?: { labels: Uint8Array; count: number };
+  parts?: Uint8Array;
+}
+
+/**
+ * Progress and cancellation hooks, called between stages since a running
+ * model or pixel loop can't be interrupted
+ */
+export interface CutOutHooks {
+  onStage?: (stage: ProcessingStage) => void;
+  checkCancelled?: () => void;
+}
+
+/**
+ * Copies a region out of an image
+ * @param image - The image to copy from
+ * @param region - The pixels to copy
+ */
+export function cropRgba(image: RgbaImage, region: Region): RgbaImage {
+  const data = new Uint8ClampedArray(region.width * region.height * 4);
+  for (let y = 0; y < region.height; y++) {
+    const start = ((region.y + y) * image.width + region.x) * 4;
+    data.set(image.data.subarray(start, start + region.width * 4), y * region.width * 4);
+  }
+  return { data, width: region.width, height: region.height };
+}
+
+/**
+ * Area-averages an image down to a smaller size
+ * @param image - The image to shrink
+ * @param width - The target width
+ * @param height - The target height
+ */
+export function downscaleRgba(image: RgbaImage, width: number, height: number): RgbaImage {
+  const data = Uint8ClampedArray.from(downsample(image.data, 4, image.width, image.height, width, height));
+  return { data, width, height };
+}
+
+/**
+ * Runs the model over an image, returning foreground probabilities. Large
+ * images are tiled, and with refineEdges a downscaled copy is segmented and
+ * its mask sharpened against the pixels.
+ */
+async function segmentSubject(
+  image: RgbaImage,
+  segment: SegmentFunction,
+  checkCancelled: () => void,
+  refineEdges?: boolean
+): Promise<Float32Array> {
+  const { width, height } = image;
+
+  if (refineEdges) {
+    // Coarse-to-fine: segment a smaller copy, then sharpen its mask against the full image
+    const scale = Math.min(1, COARSE_MAX_SIDE / Math.max(width, height));
+    const coarseWidth = Math.max(1, Math.round(width * scale));
+    const coarseHeight = Math.max(1, Math.round(height * scale));
+    const coarse = await segment(downscaleRgba(image, coarseWidth, coarseHeight));
+    checkCancelled();
+    return refineProbabilities(image.data, width, height, coarse, coarseWidth, coarseHeight);
+  }
+
+  if (shouldTile(width, height)) {
+    // Very large photos are segmented in overlapping tiles, so they fit in
+    // GPU memory and keep their edge detail
+    return segmentTiled(width, height, async (tile) => {
+      checkCancelled();
+      return segment(cropRgba(image, tile));
+    });
+  }
+
+  return segment(image);
+}
+
+/**
+ * What the models found in an image, before any point prompts: foreground
+ * probabilities, and the people once findPeople has told them apart, for the region
+ * segmented (the box, or the whole image). It doesn't depend on the points,
+ * so it can be kept and the points changed without running the models again.
+ */
+export interface Segmentation {
+  region: Region;
+  probabilities: Float32Array;
+  labels?: Uint8Array;
+  parts?: Uint8Array;
+}
+
+/**
+ * Runs the model over an image, or the part of it inside the box
+ * @param image - The image to segment
+ * @param settings - The box and edge refinement settings
+ * @param segment - The loaded model
+ * @param hooks - Cancellation checks
+ */
+export async function segmentImage(
+  image: RgbaImage,
+  settings: RemoveBackgroundSettings,
+  segment: SegmentFunction,
+  hooks: CutOutHooks = {}
+): Promise<Segmentation> {
+  const { width, height } = image;
+
+  // With a box, only the region inside it is segmented; the rest is background
+  const region = settings.box ? boxRegion(settings.box, width, height) : { x: 0, y: 0, width, height };
+  const subject = settings.box ? cropRgba(image, region) : image;
+  const probabilities = await segmentSubject(subject, segment, hooks.checkCancelled ?? (() => {}), settings.refineEdges);
+  return { region, probabilities };
+}
+
+/**
+ * Tells the people in a segmented image apart, and with withParts their body
+ * parts, so the page can keep only some of them. The per-person model sees a
+ * copy no larger than PEOPLE_MAX_SIDE, and its labels are scaled back up.
+ * @param image - The segmented image
+ * @param segmentation - Its segmentation from segmentImage
+ * @param segmentPeople - The loaded per-person model
+ * @param withParts - Whether to find body parts as well
+ * @param hooks - Cancellation checks
+ * @returns The segmentation with the people added
+ */
+export async function findPeople(
+  image: RgbaImage,
+  segmentation: Segmentation,
+  segmentPeople: InstanceFunction,
+  withParts: boolean,
+  hooks: CutOutHooks = {}
+): Promise<Segmentation> {
+  hooks.checkCancelled?.();
+  const { region } = segmentation;
+  const boxed = region.width !== image.width || region.height !== image.height;
+  const subject = boxed ? cropRgba(image, region) : image;
+
+  const scale = Math.min(1, PEOPLE_MAX_SIDE / Math.max(region.width, region.height));
+  if (scale === 1) {
+    const { labels, parts } = await segmentPeople(subject, withParts);
+    return { ...segmentation, labels, parts };
+  }
+
+  const smallWidth = Math.max(1, Math.round(region.width * scale));
+  const smallHeight = Math.max(1, Math.round(region.height * scale));
+  const { labels, parts } = await segmentPeople(downscaleRgba(subject, smallWidth, smallHeight), withParts);
+  return {
+    ...segmentation,
+    labels: resizeLabels(labels, smallWidth, smallHeight, region.width, region.height),
+    parts: parts && resizeLabels(parts, smallWidth, smallHeight, region.width, region.height)
+  };
+}
+
+/**
+ * Cuts the background out of an image by its segmentation, applying the
+ * point prompts, and making its pixels transparent in place. The
+ * segmentation itself is left as it is.
+ * @param image - The image, whose alpha channel becomes the cutout's
+ * @param segmentation - The models' output from segmentImage
+ * @param settings - The prompts, thresholds, matting and mask settings
+ * @param hooks - Stage progress and cancellation checks
+ */
+export function applySegmentation(
+  image: RgbaImage,
+  segmentation: Segmentation,
+  settings: RemoveBackgroundSettings,
+  hooks: CutOutHooks = {}
+): CutOutPeople {
+  const { width, height } = image;
+  const { region } = segmentation;
+  const boxed = region.width !== width || region.height !== height;
+
+  let probabilities = segmentation.probabilities;
+  const points = settings.points ?? [];
+  const subjectPoints = boxed ? pointsInRegion(points, region, width, height) : points;
+  if (subjectPoints.length > 0) {
+    hooks.checkCancelled?.();
+    const subjectPixels = boxed ? cropRgba(image, region).data : image.data;
+    probabilities = applyPointPrompts(subjectPixels, region.width, region.height, probabilities, subjectPoints);
+  }
+
+  if (boxed) {
+    probabilities = pasteRegion(probabilities, region, width, height);
+  }
+  // Labels are fitted to the mask in place, so the segmentation's are copied
+  const copyLabels = (values: Uint8Array) => boxed ? pasteRegion(values, region, width, height) : values.slice();
+  const labels = segmentation.labels && copyLabels(segmentation.labels);
+  const parts = segmentation.parts && copyLabels(segmentation.parts);
+  hooks.onStage?.('segmented');
+
+  const mask = createMask(image.data, width, height, probabilities, settings);
+  // The labels' edge is as coarse as the copy the per-person model saw
+  const halo = Math.ceil(LABEL_HALO * Math.max(1, Math.max(region.width, region.height) / PEOPLE_MAX_SIDE));
+  const people = labels && { labels, count: fitLabelsToMask(labels, mask, width, height, halo) };
+  if (parts) {
+    growLabels(parts, mask, width, height, halo);
+  }
+  hooks.onStage?.('matted');
+
+  applyMask(image.data, width, height, mask, settings);
+  return { people, parts };
+}
+
+/**
+ * Cuts the background out of an image, making its pixels transparent in
+ * place, and tells the people in it apart when the model can
+ * @param image - The image, whose alpha channel becomes the cutout's
+ * @param settings - The prompts, thresholds, matting and mask settings
+ * @param segment - The loaded model
+ * @param segmentPeople - The loaded per-person model, or null
+ * @param hooks - Stage progress and cancellation checks
+ */
+export async function cutOut(
+  image: RgbaImage,
+  settings: RemoveBackgroundSettings,
+  segment: SegmentFunction,
+  segmentPeople: InstanceFunction | null,
+  hooks: CutOutHooks = {}
+): Promise<CutOutPeople> {
+  let segmentation = await segmentImage(image, settings, segment, hooks);
+  if (segmentPeople) {
+    segmentation = await findPeople(image, segmentation, segmentPeople, Boolean(settings.bodyParts), hooks);
+  }
+  return applySegmentation(image, segmentation, settings, hooks);
+}
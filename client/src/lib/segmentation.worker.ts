@@ -0,0 +1,194 @@
+import { setWasmPaths } from '@tensorflow/tfjs-backend-wasm';
+import wasmUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url';
+import wasmSimdUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url';
+import wasmThreadedSimdUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url';
+import type { BackgroundRemovalModel, ProcessingStage, TfBackend } from '@shared/schema';
+import type { RemoveBackgroundSettings } from '@/lib/cutout';
+import { isFallbackModel, loadInstanceModel, loadModel } from '@/lib/models';
+import { applySegmentation, findPeople, segmentImage, type Segmentation } from '@/lib/segmentation';
+import { selectBackend } from '@/lib/tfBackend';
+
+// Messages from the page. Every request carries an id its responses echo,
+// and a segment request the id the page gave its image.
+export type SegmentationRequest =
+  | { type: 'load'; id: number; model: BackgroundRemovalModel; backend: TfBackend }
+  | { type: 'segment'; id: number; imageId: number; image: ImageBitmap; settings: RemoveBackgroundSettings }
+  | { type: 'cancel'; id: number };
+
+// Messages back to the page. A result's pixels are RGBA, row by row, and
+// with a model that tells people apart, people labels each pixel's person
+// and parts its body part.
+export type SegmentationResponse =
+  | { type: 'stage'; id: number; stage: ProcessingStage }
+  | { type: 'loaded'; id: number; backend: string; fallback: boolean }
+  | {
+      type: 'result';
+      id: number;
+      data: ArrayBuffer;
+      width: number;
+      height: number;
+      people?: { labels: ArrayBuffer; count: number };
+      parts?: ArrayBuffer;
+    }
+  | { type: 'error'; id: number; message: string; cancelled?: boolean };
+
+// The WASM backend's binaries are bundled as assets rather than fetched
+// next to the worker script
+setWasmPaths({
+  'tfjs-backend-wasm.wasm': wasmUrl,
+  'tfjs-backend-wasm-simd.wasm': wasmSimdUrl,
+  'tfjs-backend-wasm-threaded-simd.wasm': wasmThreadedSimdUrl
+});
+
+// Used when no model is selected: BodyPix, the people-only model
+const DEFAULT_MODEL: BackgroundRemovalModel = 'u2net_human_seg';
+
+// The worker global; typed as a Worker so the DOM lib's postMessage overloads apply
+const ctx = self as unknown as Worker;
+
+// Requests being worked on, by id, and whether the page has given up on each.
+// Only these can be cancelled, so a cancel arriving after its request
+// finished is dropped rather than kept forever.
+const inFlight = new Map<number, boolean>();
+
+// Segmentations of the images most recently cut out, least recently used
+// first, so changing an image's points only applies them and mats again
+// rather than running the models
+const MAX_CACHED_SEGMENTATIONS = 4;
+const segmentations = new Map<string, Segmentation>();
+
+// A segmentation depends on the image, the model and backend, the box and
+// coarse-to-fine refinement; the points, thresholds and matting come after
+function segmentationKey(imageId: number, settings: RemoveBackgroundSettings): string {
+  return JSON.stringify([imageId, settings.model ?? DEFAULT_MODEL, settings.tfBackend, settings.refineEdges, settings.box]);
+}
+
+class CancelledError extends Error {
+  constructor() {
+    super('Background removal was cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Cuts the background out of an image, reusing its segmentation when it has
+ * been cut out before. Cancellation is checked between stages, since a
+ * running model or pixel loop can't be interrupted.
+ */
+async function cutOutImage(id: number, imageId: number, image: ImageBitmap, settings: RemoveBackgroundSettings) {
+  const checkCancelled = () => {
+    if (inFlight.get(id)) throw new CancelledError();
+  };
+  const reportStage = (stage: ProcessingStage) => {
+    checkCancelled();
+    ctx.postMessage({ type: 'stage', id, stage } satisfies SegmentationResponse);
+  };
+
+  const { width, height } = image;
+  const canvas = new OffscreenCanvas(width, height);
+  const canvasCtx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!canvasCtx) {
+    image.close();
+    throw new Error('Could not get canvas context');
+  }
+
+  let imageData: ImageData;
+  try {
+    canvasCtx.drawImage(image, 0, 0);
+    imageData = canvasCtx.getImageData(0, 0, width, height);
+  } finally {
+    image.close();
+  }
+  reportStage('decoded');
+
+  const model = settings.model ?? DEFAULT_MODEL;
+  const key = segmentationKey(imageId, settings);
+  let segmentation = segmentations.get(key);
+  segmentations.delete(key);
+  if (!segmentation) {
+    await selectBackend(settings.tfBackend);
+    segmentation = await segmentImage(imageData, settings, await loadModel(model), { checkCancelled });
+  }
+  // People, and their body parts, are only found when asked for, then kept
+  // with the segmentation. Parts take a slower pass, so they're their own mode.
+  const withParts = Boolean(settings.bodyParts);
+  if ((settings.separatePeople || withParts) && (!segmentation.labels || (withParts && !segmentation.parts))) {
+    await selectBackend(settings.tfBackend);
+    const segmentPeople = await loadInstanceModel(model);
+    if (segmentPeople) {
+      segmentation = await findPeople(imageData, segmentation, segmentPeople, withParts, { checkCancelled });
+    }
+  }
+  segmentations.set(key, segmentation);
+  if (segmentations.size > MAX_CACHED_SEGMENTATIONS) {
+    segmentations.delete(segmentations.keys().next().value!);
+  }
+
+  const wanted: Segmentation = {
+    region: segmentation.region,
+    probabilities: segmentation.probabilities,
+    labels: settings.separatePeople ? segmentation.labels : undefined,
+    parts: withParts ? segmentation.parts : undefined
+  };
+  const { people, parts } = applySegmentation(imageData, wanted, settings, {
+    onStage: reportStage,
+    checkCancelled
+  });
+
+  canvasCtx.putImageData(imageData, 0, 0);
+
+  // Apply blur effect for smoother edges
+  if (settings.blurEffect && settings.blurEffect > 0) {
+    canvasCtx.globalAlpha = 0.9;
+    canvasCtx.filter = `blur(${settings.blurEffect}px)`;
+    canvasCtx.drawImage(canvas, 0, 0);
+    canvasCtx.filter = 'none';
+  }
+  reportStage('composited');
+
+  const { data } = canvasCtx.getImageData(0, 0, width, height);
+  const peopleLabels = people && { labels: people.labels.buffer as ArrayBuffer, count: people.count };
+  const partLabels = parts?.buffer as ArrayBuffer | undefined;
+  // Every buffer is transferred, not copied
+  const transfer = [data.buffer, peopleLabels?.labels, partLabels].filter((buffer) => buffer !== undefined);
+  ctx.postMessage(
+    { type: 'result', id, data: data.buffer, width, height, people: peopleLabels, parts: partLabels } satisfies SegmentationResponse,
+    transfer
+  );
+}
+
+ctx.onmessage = async (event: MessageEvent<SegmentationRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    if (inFlight.has(request.id)) {
+      inFlight.set(request.id, true);
+    }
+    return;
+  }
+
+  inFlight.set(request.id, false);
+  try {
+    if (request.type === 'load') {
+      const backend = await selectBackend(request.backend);
+      await loadModel(request.model);
+      ctx.postMessage({
+        type: 'loaded',
+        id: request.id,
+        backend,
+        fallback: isFallbackModel(request.model)
+      } satisfies SegmentationResponse);
+    } else {
+      await cutOutImage(request.id, request.imageId, request.image, request.settings);
+    }
+  } catch (error) {
+    ctx.postMessage({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error),
+      cancelled: error instanceof CancelledError
+    } satisfies SegmentationResponse);
+  } finally {
+    inFlight.delete(request.id);
+  }
+};
@@ -0,0 +1,53 @@
+import * as tf from '@tensorflow/tfjs';
+import '@tensorflow/tfjs-backend-wasm';
+import type { TfBackend } from '@shared/schema';
+
+// Fastest first. WebGL needs a GPU context, which headless machines and some
+// browsers lack; WASM needs WebAssembly; the CPU backend runs anywhere,
+// including Node.
+const FALLBACK_ORDER: Exclude<TfBackend, 'auto'>[] = ['webgl', 'wasm', 'cpu'];
+
+let selected: { preference: TfBackend; backend: Promise<string> } | null = null;
+
+/**
+ * Tries each backend in turn and returns the name of the first that initialises
+ * @param preference - The backend to try first, or 'auto' for the fallback order
+ */
+async function probeBackends(preference: TfBackend): Promise<string> {
+  const candidates = preference === 'auto'
+    ? FALLBACK_ORDER
+    : [preference, ...FALLBACK_ORDER.filter((name) => name !== preference)];
+
+  for (const name of candidates) {
+    try {
+      if (await tf.setBackend(name)) {
+        await tf.ready();
+        if (preference !== 'auto' && name !== preference) {
+          console.warn(`TensorFlow.js ${preference} backend is unavailable, using ${name}`);
+        }
+        return name;
+      }
+    } catch (error) {
+      console.warn(`TensorFlow.js ${name} backend failed to initialise:`, error);
+    }
+  }
+  throw new Error('No TensorFlow.js backend could be initialised');
+}
+
+/**
+ * Selects the TensorFlow.js backend, probing only when the preference changes.
+ * A forced backend that can't start falls back like 'auto', so the returned
+ * name is the backend actually in use.
+ * @param preference - The backend chosen in settings
+ */
+export function selectBackend(preference: TfBackend = 'auto'): Promise<string> {
+  if (!selected || selected.preference !== preference) {
+    const backend = probeBackends(preference);
+    selected = { preference, backend };
+    // Let a failed probe be retried
+    backend.catch(() => {
+      if (selected?.backend === backend) selected = null;
+    });
+  }
+  return selected.backend;
+}
@@ -6,18 +6,28 @@ import ResultSection from "@/components/ResultSection";
 import FaqSection from "@/components/FaqSection";
 import Footer from "@/components/Footer";
 import { useToast } from "@/hooks/use-toast";
-import { Settings } from "@shared/schema";
+import { Settings, type BoxPrompt } from "@shared/schema";
 import { loadModel } from "@/lib/backgroundRemover";
+import { useBatchQueue } from "@/hooks/useBatchQueue";
+import type { BodyPartMap } from "@/lib/bodyParts";
+import type { PersonInstances } from "@/lib/people";
 
 // Define the interface for image result data
 interface ImageResult {
   original: string;
   processed: string;
+  box?: BoxPrompt;
+  people?: PersonInstances;
+  parts?: BodyPartMap;
 }
 
 export default function Home() {
   const [activeTab, setActiveTab] = useState<"upload" | "settings">("upload");
   const [result, setResult] = useState<ImageResult | null>(null);
+  // The TensorFlow.js backend in-browser processing ended up on
+  const [activeBackend, setActiveBackend] = useState<string>();
+  // Lives here rather than in UploadSection so the queue survives viewing a result
+  const batch = useBatchQueue();
   const { toast } = useToast();
   
   // Fetch settings
@@ -25,17 +35,26 @@ export default function Home() {
     queryKey: ["/api/settings"],
   });
   
-  // Preload TensorFlow model
+  // Preload the selected model
   useEffect(() => {
-    loadModel().catch(error => {
-      console.error("Failed to load TensorFlow model:", error);
+    if (!settings) return;
+    loadModel(settings.model, settings.tfBackend).then(({ backend, fallback }) => {
+      setActiveBackend(backend);
+      if (fallback) {
+        toast({
+          title: "Model weights not installed",
+          description: `The ${settings.model} weights aren't available on this server, so the people-only model is used instead. See the README to add them.`,
+        });
+      }
+    }).catch(error => {
+      console.error("Failed to load model:", error);
       toast({
         title: "Model loading error",
         description: "Failed to load the AI model. Please try again or check your connection.",
         variant: "destructive",
       });
     });
-  }, []);
+  }, [settings?.model, settings?.tfBackend]);
   
   if (error) {
     toast({
@@ -45,6 +64,11 @@ export default function Home() {
     });
   }
   
+  // Finished batch images, offered together as a ZIP export
+  const archiveItems = batch.items
+    .filter((item) => item.status === "succeeded" && item.result)
+    .map((item) => ({ name: item.file.name, processed: item.result!.processed }));
+  
   // Callback when image is processed successfully
   const handleUploadSuccess = (data: ImageResult) => {
     setResult(data);
@@ -97,6 +121,10 @@ export default function Home() {
           <ResultSection 
             originalImage={result.original} 
             processedImage={result.processed} 
+            box={result.box}
+            people={result.people}
+            parts={result.parts}
+            archiveItems={archiveItems}
             onReset={handleReset} 
           />
         )}
@@ -135,11 +163,12 @@ export default function Home() {
               <UploadSection 
                 settings={settings} 
                 isLoading={isLoading} 
+                batch={batch}
                 onUploadSuccess={handleUploadSuccess}
               />
             </div>
             <div className={activeTab === "settings" ? "block" : "hidden"}>
-              <SettingsSection settings={settings} isLoading={isLoading} />
+              <SettingsSection settings={settings} isLoading={isLoading} activeBackend={activeBackend} />
             </div>
           </div>
         )}
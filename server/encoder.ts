@@ -0,0 +1,65 @@
+import sharp from "sharp";
+import { formatQualityLevels, imageFormatMimeTypes, type DownloadOptions } from "@shared/schema";
+import { readSourceMetadata, applySourceMetadata } from "./metadata";
+
+export interface EncodedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  contentType: string;
+}
+
+/**
+ * Encode a processed RGBA image in the requested format. JPG has no alpha
+ * channel, so transparency is flattened onto the background colour first.
+ * Metadata is copied from the original upload according to the options'
+ * metadata policy, when the original is still available. Images tagged with
+ * an ICC profile are either converted to sRGB or keep their profile and
+ * original colour values, depending on the options' colour profile mode.
+ */
+export async function encodeImage(
+  inputPath: string,
+  options: DownloadOptions,
+  backgroundColor: string = "#ffffff",
+  sourcePath?: string,
+): Promise<EncodedImage> {
+  const quality = formatQualityLevels[options.format][options.quality];
+  const metadata = sourcePath ? await readSourceMetadata(sourcePath, options.metadata) : undefined;
+  let pipeline = applySourceMetadata(sharp(inputPath), metadata);
+
+  // Applied regardless of the metadata policy, since the profile defines what the pixel values mean
+  const { icc } = await sharp(inputPath).metadata();
+  if (icc) {
+    pipeline = options.colorProfile === "preserve"
+      ? pipeline.keepIccProfile()
+      : pipeline.withIccProfile("srgb");
+  }
+
+  switch (options.format) {
+    case "jpg":
+      pipeline = pipeline
+        .flatten({ background: backgroundColor })
+        .jpeg({ quality, mozjpeg: true });
+      break;
+    case "png":
+      // PNG is lossless; lower qualities trade colour depth for size via palette quantisation
+      pipeline = options.quality === "high"
+        ? pipeline.png({ compressionLevel: 6 })
+        : pipeline.png({ compressionLevel: 9, palette: true, quality });
+      break;
+    case "webp":
+      pipeline = pipeline.webp({ quality, alphaQuality: 100 });
+      break;
+    case "avif":
+      pipeline = pipeline.avif({ quality });
+      break;
+  }
+
+  const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+  return {
+    data,
+    width: info.width,
+    height: info.height,
+    contentType: imageFormatMimeTypes[options.format],
+  };
+}
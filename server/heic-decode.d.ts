@@ -0,0 +1,11 @@
+declare module "heic-decode" {
+  interface DecodedImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+  }
+
+  function decode(options: { buffer: Buffer | ArrayBuffer }): Promise<DecodedImage>;
+
+  export default decode;
+}
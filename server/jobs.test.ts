@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+import type { JobResult } from "@shared/schema";
+import { JobQueue, isFinished, type JobEvent } from "./jobs";
+
+const result: JobResult = { original: "/api/images/a", processed: "/api/images/processed/a.png" };
+
+// Wait for a job to finish, by the events it records
+async function finished(queue: JobQueue, id: string): Promise<JobEvent[]> {
+  for (;;) {
+    const events = queue.eventsSince(id, 0)!;
+    if (isFinished(events[events.length - 1].job)) return events;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe("JobQueue", () => {
+  it("records every change as a numbered event", async () => {
+    const queue = new JobQueue(1);
+    const { id } = queue.enqueue(async (report) => {
+      report("decoded");
+      report("segmented");
+      return result;
+    });
+
+    const events = await finished(queue, id);
+    expect(events.map((event) => event.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(events.map((event) => [event.job.status, event.job.stage])).toEqual([
+      ["queued", undefined],
+      ["running", undefined],
+      ["running", "decoded"],
+      ["running", "segmented"],
+      ["succeeded", "segmented"],
+    ]);
+    expect(events[4].job.result).toEqual(result);
+  });
+
+  it("replays only the events after the one a client last saw", async () => {
+    const queue = new JobQueue(1);
+    const { id } = queue.enqueue(async (report) => {
+      report("decoded");
+      return result;
+    });
+    await finished(queue, id);
+
+    expect(queue.eventsSince(id, 2)!.map((event) => event.id)).toEqual([3, 4]);
+    expect(queue.eventsSince(id, 4)).toEqual([]);
+    expect(queue.eventsSince("unknown", 0)).toBeUndefined();
+  });
+
+  it("sends subscribers the events after they subscribe", async () => {
+    const queue = new JobQueue(1);
+    let finish!: () => void;
+    const { id } = queue.enqueue(() => new Promise((resolve) => {
+      finish = () => resolve(result);
+    }));
+    const listener = vi.fn();
+    const unsubscribe = queue.subscribe(id, listener)!;
+
+    finish();
+    await finished(queue, id);
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].job.status).toBe("succeeded");
+  });
+
+  it("reports a failed task with its message", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const queue = new JobQueue(1);
+    const { id } = queue.enqueue(async () => {
+      throw new Error("Could not decode");
+    });
+
+    const events = await finished(queue, id);
+    expect(events[events.length - 1].job).toMatchObject({ status: "failed", error: "Could not decode" });
+    vi.restoreAllMocks();
+  });
+
+  it("forgets finished jobs once they are old enough", async () => {
+    const queue = new JobQueue(1);
+    const { id } = queue.enqueue(async () => result);
+    await finished(queue, id);
+
+    queue.prune(0);
+    expect(queue.get(id)).toBeDefined();
+    queue.prune(Date.now() + 1);
+    expect(queue.get(id)).toBeUndefined();
+  });
+});
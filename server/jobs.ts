@@ -0,0 +1,132 @@
+import { randomUUID } from "crypto";
+import { stageProgress, type JobInfo, type JobResult, type ProcessingStage } from "@shared/schema";
+
+// Work performed by a job; report() marks a completed pipeline stage
+export type JobTask = (report: (stage: ProcessingStage) => void) => Promise<JobResult>;
+
+// Snapshot of a job after a change, numbered so clients can resume a stream
+export interface JobEvent {
+  id: number;
+  job: JobInfo;
+}
+
+export type JobListener = (event: JobEvent) => void;
+
+interface Job extends JobInfo {
+  task: JobTask;
+  updatedAt: number;
+  events: JobEvent[];
+  listeners: Set<JobListener>;
+}
+
+/**
+ * In-memory job queue drained by a fixed number of concurrent workers.
+ */
+export class JobQueue {
+  private jobs: Map<string, Job>;
+  private pending: string[];
+  private running: number;
+
+  constructor(private readonly concurrency: number) {
+    this.jobs = new Map();
+    this.pending = [];
+    this.running = 0;
+  }
+
+  enqueue(task: JobTask): JobInfo {
+    const job: Job = {
+      id: randomUUID(),
+      status: "queued",
+      progress: 0,
+      task,
+      updatedAt: Date.now(),
+      events: [],
+      listeners: new Set(),
+    };
+    this.jobs.set(job.id, job);
+    this.update(job, {});
+    this.pending.push(job.id);
+    this.drain();
+    return this.toInfo(job);
+  }
+
+  get(id: string): JobInfo | undefined {
+    const job = this.jobs.get(id);
+    return job ? this.toInfo(job) : undefined;
+  }
+
+  // Events recorded after the given event id, oldest first
+  eventsSince(id: string, lastEventId: number): JobEvent[] | undefined {
+    return this.jobs.get(id)?.events.filter((event) => event.id > lastEventId);
+  }
+
+  // Listen for future events; returns an unsubscribe function
+  subscribe(id: string, listener: JobListener): (() => void) | undefined {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    job.listeners.add(listener);
+    return () => {
+      job.listeners.delete(listener);
+    };
+  }
+
+  // Forget finished jobs that have not changed since the given timestamp
+  prune(olderThan: number) {
+    this.jobs.forEach((job, id) => {
+      if (isFinished(job) && job.updatedAt < olderThan) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+
+  private drain() {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const job = this.jobs.get(this.pending.shift()!);
+      if (job) {
+        this.running++;
+        this.run(job).finally(() => {
+          this.running--;
+          this.drain();
+        });
+      }
+    }
+  }
+
+  private async run(job: Job) {
+    this.update(job, { status: "running" });
+
+    try {
+      const result = await job.task((stage) => {
+        this.update(job, { stage, progress: stageProgress[stage] });
+      });
+      this.update(job, { status: "succeeded", progress: 100, result });
+    } catch (error) {
+      console.error(`Job ${job.id} failed:`, error);
+      this.update(job, {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Failed to process image",
+      });
+    }
+  }
+
+  private update(job: Job, changes: Partial<JobInfo>) {
+    Object.assign(job, changes, { updatedAt: Date.now() });
+
+    const event: JobEvent = { id: job.events.length + 1, job: this.toInfo(job) };
+    job.events.push(event);
+    job.listeners.forEach((listener) => listener(event));
+  }
+
+  private toInfo(job: Job): JobInfo {
+    const { id, status, progress, stage, result, error } = job;
+    return { id, status, progress, stage, result, error };
+  }
+}
+
+export function isFinished(job: JobInfo): boolean {
+  return job.status === "succeeded" || job.status === "failed";
+}
+
+export const jobQueue = new JobQueue(Number(process.env.JOB_CONCURRENCY) || 2);
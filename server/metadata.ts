@@ -0,0 +1,90 @@
+import sharp from "sharp";
+import exifReader from "exif-reader";
+import type { MetadataPolicy } from "@shared/schema";
+
+// EXIF directories as sharp names them, keyed by exif-reader's section names
+const exifDirectories = {
+  Image: "IFD0",
+  Photo: "IFD2",
+  GPSInfo: "IFD3",
+} as const;
+
+// Tags kept by the "copyright" policy
+const copyrightTags = ["Copyright", "Artist"];
+
+// Tags never carried over: pixels are already upright and dimensions may have changed
+const droppedTags = ["Orientation", "ImageWidth", "ImageLength", "PixelXDimension", "PixelYDimension"];
+
+export interface SourceMetadata {
+  exif: sharp.Exif;
+}
+
+// EXIF dates are written as "YYYY:MM:DD HH:MM:SS"
+function formatExifDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getUTCFullYear()}:${pad(date.getUTCMonth() + 1)}:${pad(date.getUTCDate())} `
+    + `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+}
+
+/**
+ * Read the metadata of an original upload that a policy allows to be
+ * written out again. sharp can only write textual EXIF fields, so numeric
+ * and binary tags are left behind even under the "all" policy.
+ */
+export async function readSourceMetadata(
+  sourcePath: string,
+  policy: MetadataPolicy,
+): Promise<SourceMetadata | undefined> {
+  if (policy === "strip") {
+    return undefined;
+  }
+
+  const metadata = await sharp(sourcePath, { pages: 1 }).metadata().catch(() => undefined);
+  if (!metadata) {
+    return undefined;
+  }
+
+  const exif: sharp.Exif = {};
+  if (metadata.exif) {
+    try {
+      const parsed = exifReader(metadata.exif);
+      for (const [section, directory] of Object.entries(exifDirectories)) {
+        const tags = parsed[section as keyof typeof exifDirectories] as Record<string, unknown> | undefined;
+        const fields: Record<string, string> = {};
+
+        for (const [tag, value] of Object.entries(tags ?? {})) {
+          if (droppedTags.includes(tag) || (policy === "copyright" && !copyrightTags.includes(tag))) {
+            continue;
+          }
+          if (typeof value === "string" && value.trim()) {
+            fields[tag] = value;
+          } else if (value instanceof Date && !isNaN(value.getTime())) {
+            fields[tag] = formatExifDate(value);
+          }
+        }
+
+        if (Object.keys(fields).length > 0) {
+          exif[directory] = fields;
+        }
+      }
+    } catch (error) {
+      console.warn(`Ignoring unreadable EXIF data in ${sourcePath}:`, error);
+    }
+  }
+
+  return { exif };
+}
+
+/**
+ * Attach carried-over metadata to an encoder pipeline. ICC profiles are
+ * handled by the encoder, since they describe the pixels rather than the photo.
+ */
+export function applySourceMetadata(pipeline: sharp.Sharp, metadata: SourceMetadata | undefined): sharp.Sharp {
+  if (!metadata) {
+    return pipeline;
+  }
+  if (Object.keys(metadata.exif).length > 0) {
+    pipeline = pipeline.withExif(metadata.exif);
+  }
+  return pipeline;
+}
@@ -0,0 +1,258 @@
+import fs from "fs/promises";
+import { deflateSync, inflateSync } from "zlib";
+import sharp from "sharp";
+import decodeHeic from "heic-decode";
+import type { ProcessingSettings, ProcessingStage, Prompts } from "@shared/schema";
+import { readIccDescription } from "@shared/icc";
+import { COARSE_MAX_SIDE, decontaminateColors, matteAlpha, refineProbabilities } from "@shared/matting";
+import { applyMaskOps } from "@shared/maskOps";
+import { applyPointPrompts, boxRegion, pasteRegion, pointsInRegion } from "@shared/prompts";
+import { createIccpChunkData, createPngChunk, insertPngChunk } from "@shared/png";
+import { cropImage, type RawImage, type SegmentOptions, type Segmenter } from "./segmenter";
+
+export interface ProcessingResult {
+  width: number;
+  height: number;
+  iccProfile?: string;
+  // The model's foreground probabilities before any point prompts, for the
+  // segmented region (the box, or the whole image), so points can be
+  // changed later without segmenting again
+  probabilities: Float32Array;
+}
+
+// Decoded pixels, with the ICC profile they are encoded in if not sRGB-converted
+export interface DecodedImage extends RawImage {
+  icc?: Buffer;
+}
+
+// Thrown when an upload cannot be decoded as any supported image format
+export class UnsupportedImageError extends Error {
+  constructor(message: string = "Unsupported or corrupt image") {
+    super(message);
+    this.name = "UnsupportedImageError";
+  }
+}
+
+// ISO-BMFF brands used by HEVC-coded HEIC/HEIF files
+const heicBrands = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"];
+
+function isHeic(buffer: Buffer): boolean {
+  return buffer.length >= 12
+    && buffer.toString("ascii", 4, 8) === "ftyp"
+    && heicBrands.includes(buffer.toString("ascii", 8, 12));
+}
+
+/**
+ * Check that an upload looks like a supported image without decoding its
+ * pixels, so queued uploads can be rejected before a job is created.
+ * Throws UnsupportedImageError when it does not.
+ */
+export async function checkImage(inputPath: string): Promise<void> {
+  try {
+    await sharp(inputPath, { pages: 1 }).metadata();
+  } catch (error) {
+    const header = Buffer.alloc(12);
+    const file = await fs.open(inputPath, "r");
+    try {
+      await file.read(header, 0, header.length, 0);
+    } finally {
+      await file.close();
+    }
+    if (!isHeic(header)) {
+      throw new UnsupportedImageError();
+    }
+  }
+}
+
+/**
+ * Decode any supported input into upright RGBA bytes. EXIF orientation is
+ * applied so segmentation and output see the image the right way up.
+ * Animated GIF/WebP and multi-page TIFF are reduced to their first frame.
+ * The bundled libvips cannot decode HEVC, so HEIC falls back to a
+ * WebAssembly decoder, which applies the HEIF rotation itself.
+ * RGB images with an embedded ICC profile keep their original colour values
+ * (e.g. Display P3) rather than being clipped to sRGB; other colour spaces
+ * such as CMYK are converted to sRGB.
+ */
+export async function decodeImage(inputPath: string): Promise<DecodedImage> {
+  try {
+    const input = sharp(inputPath, { pages: 1 });
+    const { icc, space } = await input.metadata();
+    const keepProfile = Boolean(icc) && space === "srgb";
+
+    const { data, info } = await (keepProfile ? input.keepIccProfile() : input)
+      .rotate()
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return { data, width: info.width, height: info.height, icc: keepProfile ? icc : undefined };
+  } catch (error) {
+    const buffer = await fs.readFile(inputPath);
+    if (!isHeic(buffer)) {
+      throw new UnsupportedImageError();
+    }
+
+    try {
+      const image = await decodeHeic({ buffer });
+      return { data: Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength), width: image.width, height: image.height };
+    } catch (heicError) {
+      throw new UnsupportedImageError("Could not decode HEIC image");
+    }
+  }
+}
+
+/**
+ * Convert foreground probabilities into an alpha channel. With alpha
+ * matting the thresholds define a trimap whose unknown band is solved
+ * against the image colours; without it the mask is cut hard at the
+ * midpoint of the two thresholds.
+ */
+export function probabilitiesToAlpha(
+  probabilities: Float32Array,
+  image: RawImage,
+  settings: ProcessingSettings,
+): Uint8Array {
+  const foregroundThreshold = settings.foregroundThreshold / 100;
+  const backgroundThreshold = settings.backgroundThreshold / 100;
+
+  if (settings.alphaMatting) {
+    return matteAlpha(image.data, image.width, image.height, probabilities, {
+      foregroundThreshold,
+      backgroundThreshold,
+    });
+  }
+
+  const cut = (foregroundThreshold + backgroundThreshold) / 2;
+  const alpha = new Uint8Array(probabilities.length);
+  for (let i = 0; i < probabilities.length; i++) {
+    alpha[i] = probabilities[i] >= cut ? 255 : 0;
+  }
+  return alpha;
+}
+
+/**
+ * Coarse-to-fine segmentation: the model sees a copy scaled down to
+ * COARSE_MAX_SIDE, and its mask is upsampled with a guided filter against
+ * the full-resolution image, so edge detail isn't bound by the model's
+ * input size.
+ */
+async function segmentCoarseToFine(
+  image: RawImage,
+  options: SegmentOptions,
+  segmenter: Segmenter,
+): Promise<Float32Array> {
+  const scale = Math.min(1, COARSE_MAX_SIDE / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+
+  const coarse: RawImage = scale < 1
+    ? {
+      data: await sharp(image.data, { raw: { width: image.width, height: image.height, channels: 4 } })
+        .resize(width, height, { fit: "fill" })
+        .raw()
+        .toBuffer(),
+      width,
+      height,
+    }
+    : image;
+  const probabilities = await segmenter.segment(coarse, options);
+  return refineProbabilities(image.data, image.width, image.height, probabilities, width, height);
+}
+
+// Cached probabilities are quantised to 16 bits and deflated, which keeps
+// them small without moving any threshold noticeably
+const PROBABILITY_SCALE = 65535;
+
+/**
+ * Write unprompted probabilities to a cache file for later refinement
+ */
+export async function writeProbabilities(filePath: string, probabilities: Float32Array): Promise<void> {
+  const quantised = new Uint16Array(probabilities.length);
+  for (let i = 0; i < probabilities.length; i++) {
+    quantised[i] = Math.round(Math.min(Math.max(probabilities[i], 0), 1) * PROBABILITY_SCALE);
+  }
+  await fs.writeFile(filePath, deflateSync(quantised));
+}
+
+/**
+ * Read probabilities written by writeProbabilities, or undefined when the
+ * cache file is gone or unreadable
+ */
+export async function readProbabilities(filePath: string): Promise<Float32Array | undefined> {
+  try {
+    const bytes = inflateSync(await fs.readFile(filePath));
+    const quantised = new Uint16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.length / 2));
+    return Float32Array.from(quantised, (value) => value / PROBABILITY_SCALE);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Segment the input image and write the cutout as an RGBA PNG, tagged with
+// the source's ICC profile when it has one. Point prompts are applied to the
+// model's probabilities afterwards, so a refinement passes the probabilities
+// an earlier run returned and skips the model.
+export async function processImage(
+  inputPath: string,
+  outputPath: string,
+  settings: ProcessingSettings,
+  segmenter: Segmenter,
+  onStage: (stage: ProcessingStage) => void = () => {},
+  prompts?: Prompts,
+  cachedProbabilities?: Float32Array,
+): Promise<ProcessingResult> {
+  const image = await decodeImage(inputPath);
+  onStage("decoded");
+
+  // With a box, only the region inside it is segmented; the rest is background
+  const region = prompts?.box ? boxRegion(prompts.box, image.width, image.height) : undefined;
+  const subject = region ? cropImage(image, region) : image;
+  const options: SegmentOptions = { model: settings.model };
+  // A cache from another box or image size can't be reused
+  const unprompted = cachedProbabilities?.length === subject.width * subject.height
+    ? cachedProbabilities
+    : settings.refineEdges
+      ? await segmentCoarseToFine(subject, options, segmenter)
+      : await segmenter.segment(subject, options);
+
+  const points = prompts?.points ?? [];
+  const subjectPoints = region ? pointsInRegion(points, region, image.width, image.height) : points;
+  let probabilities = subjectPoints.length > 0
+    ? applyPointPrompts(subject.data, subject.width, subject.height, unprompted, subjectPoints)
+    : unprompted;
+  if (region) {
+    probabilities = pasteRegion(probabilities, region, image.width, image.height);
+  }
+  onStage("segmented");
+  const alpha = applyMaskOps(probabilitiesToAlpha(probabilities, image, settings), image.width, image.height, settings.maskOps);
+  onStage("matted");
+
+  for (let i = 0; i < alpha.length; i++) {
+    // Keep any transparency the source already had
+    image.data[i * 4 + 3] = Math.min(image.data[i * 4 + 3], alpha[i]);
+  }
+  if (settings.decontaminateColors) {
+    decontaminateColors(image.data, image.width, image.height);
+  }
+  onStage("composited");
+
+  let png: Uint8Array = await sharp(image.data, {
+    raw: { width: image.width, height: image.height, channels: 4 },
+  })
+    .png()
+    .toBuffer();
+  if (image.icc) {
+    // sharp would convert raw pixels to the profile, so the iCCP chunk is added by hand
+    png = insertPngChunk(png, createPngChunk("iCCP", createIccpChunkData(deflateSync(image.icc))));
+  }
+  await fs.writeFile(outputPath, png);
+  onStage("encoded");
+
+  return {
+    width: image.width,
+    height: image.height,
+    iccProfile: image.icc ? readIccDescription(image.icc) ?? "Embedded profile" : undefined,
+    probabilities: unprompted,
+  };
+}
@@ -0,0 +1,175 @@
+import express from "express";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import request from "supertest";
+import sharp from "sharp";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { MAX_BATCH_FILES, MAX_UPLOAD_SIZE, type JobInfo } from "@shared/schema";
+import { StubSegmenter } from "./segmenter";
+
+// The routes keep uploads and results under the working directory, so the
+// tests run in a temporary one rather than the project's
+const cwd = process.cwd();
+const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "routes-test-"));
+process.chdir(workDir);
+
+// The stub segmenter keeps the route runnable without the Python CLIs
+process.env.SEGMENTER = "stub";
+const { registerRoutes } = await import("./routes");
+
+const app = express();
+app.use(express.json());
+
+beforeAll(async () => {
+  await registerRoutes(app);
+  // Reports errors carrying a status (e.g. rejected uploads) with it, like the
+  // handler in index.ts but without rethrowing
+  app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    res.status(err.status || 500).json({ message: err.message });
+  });
+});
+
+afterAll(async () => {
+  process.chdir(cwd);
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+function testImage(): Promise<Buffer> {
+  return sharp({
+    create: { width: 64, height: 48, channels: 3, background: { r: 200, g: 80, b: 40 } },
+  }).jpeg().toBuffer();
+}
+
+// Poll a job until it finishes
+async function waitForJob(id: string): Promise<JobInfo> {
+  for (;;) {
+    const { body } = await request(app).get(`/api/jobs/${id}`).expect(200);
+    if (body.status === "succeeded" || body.status === "failed") return body;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe("POST /api/upload", () => {
+  it("returns the original and an RGBA PNG cutout", async () => {
+    const image = await testImage();
+
+    const upload = await request(app)
+      .post("/api/upload")
+      .attach("image", image, { filename: "photo.jpg", contentType: "image/jpeg" })
+      .expect(200);
+    expect(upload.body.original).toMatch(/^\/api\/images\//);
+    expect(upload.body.processed).toMatch(/^\/api\/images\/processed\/.+\.png$/);
+
+    const processed = await request(app)
+      .get(upload.body.processed)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => callback(null, Buffer.concat(chunks)));
+      })
+      .expect(200);
+    const metadata = await sharp(processed.body as Buffer).metadata();
+    expect(metadata.format).toBe("png");
+    expect(metadata.channels).toBe(4);
+    expect(metadata.width).toBe(64);
+    expect(metadata.height).toBe(48);
+  });
+
+  it("rejects a request without an image", async () => {
+    await request(app).post("/api/upload").expect(400);
+  });
+
+  it("refuses an image over the size limit with a 413", async () => {
+    const response = await request(app)
+      .post("/api/upload")
+      .attach("image", Buffer.alloc(MAX_UPLOAD_SIZE + 1), { filename: "photo.png", contentType: "image/png" })
+      .expect(413);
+    expect(response.body.message).toMatch(/File too large/);
+  });
+});
+
+describe("POST /api/jobs", () => {
+  it("rejects malformed settings JSON with a 400", async () => {
+    const response = await request(app)
+      .post("/api/jobs")
+      .field("settings", "{not json")
+      .attach("image", Buffer.from("unused"), { filename: "photo.png", contentType: "image/png" })
+      .expect(400);
+    expect(response.body.message).toMatch(/settings must be valid JSON/);
+  });
+
+  it("rejects malformed prompts JSON with a 400", async () => {
+    const response = await request(app)
+      .post("/api/jobs")
+      .field("prompts", "{\"box\":")
+      .attach("image", Buffer.from("unused"), { filename: "photo.png", contentType: "image/png" })
+      .expect(400);
+    expect(response.body.message).toMatch(/prompts must be valid JSON/);
+  });
+
+  it("refuses an image it cannot decode with a 415, like /api/upload", async () => {
+    await request(app)
+      .post("/api/jobs")
+      .attach("image", Buffer.from("not an image"), { filename: "photo.png", contentType: "image/png" })
+      .expect(415);
+  });
+});
+
+describe("POST /api/jobs/batch", () => {
+  it("refuses an image it cannot decode without failing the rest", async () => {
+    const response = await request(app)
+      .post("/api/jobs/batch")
+      .attach("images", await testImage(), { filename: "photo.jpg", contentType: "image/jpeg" })
+      .attach("images", Buffer.from("not an image"), { filename: "broken.png", contentType: "image/png" })
+      .expect(202);
+
+    const [queued, refused] = response.body.entries;
+    expect((await waitForJob(queued.job.id)).status).toBe("succeeded");
+    expect(refused.error).toEqual(expect.any(String));
+  });
+
+  it("rejects more images than a batch holds with a 400", async () => {
+    let batch = request(app).post("/api/jobs/batch");
+    for (let i = 0; i <= MAX_BATCH_FILES; i++) {
+      batch = batch.attach("images", Buffer.from("unused"), { filename: `photo${i}.png`, contentType: "image/png" });
+    }
+    const response = await batch.expect(400);
+    expect(response.body.message).toContain(`up to ${MAX_BATCH_FILES} images`);
+  });
+});
+
+describe("POST /api/images/processed/:filename/refine", () => {
+  it("applies points to the cached probabilities without segmenting again", async () => {
+    const upload = await request(app)
+      .post("/api/upload")
+      .attach("image", await testImage(), { filename: "photo.jpg", contentType: "image/jpeg" })
+      .expect(200);
+
+    const segment = vi.spyOn(StubSegmenter.prototype, "segment");
+    try {
+      const refine = await request(app)
+        .post(`${upload.body.processed}/refine`)
+        .send({ prompts: { points: [{ x: 0.05, y: 0.05, label: "foreground" }] } })
+        .expect(202);
+      const job = await waitForJob(refine.body.id);
+
+      expect(job.status).toBe("succeeded");
+      expect(job.result?.processed).not.toBe(upload.body.processed);
+      expect(segment).not.toHaveBeenCalled();
+    } finally {
+      segment.mockRestore();
+    }
+  });
+});
+
+describe("POST /api/download/archive", () => {
+  it("answers a file that doesn't exist with a 404", async () => {
+    const response = await request(app)
+      .post("/api/download/archive")
+      .send({ files: [{ filepath: "/api/images/processed/missing.png" }], options: { format: "png", quality: "high" } })
+      .expect(404);
+    expect(response.body.message).toBe("Processed image not found");
+  });
+});
@@ -1,34 +1,93 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import multer from "multer";
 import path from "path";
 import fs from "fs/promises";
-import { execFile } from "child_process";
-import util from "util";
 import { z } from "zod";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
-import { settingsSchema, downloadOptionsSchema } from "@shared/schema";
+import archiver from "archiver";
+import {
+  settingsSchema,
+  downloadOptionsSchema,
+  archiveRequestSchema,
+  promptsSchema,
+  uploadImageTypes,
+  browserImageTypes,
+  MAX_UPLOAD_SIZE,
+  MAX_BATCH_FILES,
+  type BatchEntry,
+  type JobInfo,
+  type ProcessingSettings,
+  type ProcessingStage,
+  type Prompts,
+} from "@shared/schema";
+import { createSegmenter } from "./segmenter";
+import sharp from "sharp";
+import { processImage, checkImage, decodeImage, readProbabilities, writeProbabilities, UnsupportedImageError } from "./pipeline";
+import { encodeImage } from "./encoder";
+import { jobQueue, isFinished, type JobEvent } from "./jobs";
 
 // Configure multer for file uploads
 const upload = multer({
   dest: path.join(process.cwd(), "temp_uploads"),
   limits: {
-    fileSize: 5 * 1024 * 1024, // 5MB limit
+    fileSize: MAX_UPLOAD_SIZE,
   },
   fileFilter: (_req, file, cb) => {
-    const allowedTypes = ["image/jpeg", "image/png", "image/jpg"];
-    if (allowedTypes.includes(file.mimetype)) {
+    // Some browsers send HEIC and TIFF without a MIME type, so fall back to the extension
+    const extension = path.extname(file.originalname).toLowerCase();
+    const allowed = Object.hasOwn(uploadImageTypes, file.mimetype)
+      || Object.values(uploadImageTypes).some((extensions) => extensions.includes(extension));
+    if (allowed) {
       cb(null, true);
     } else {
-      cb(new Error("Invalid file type. Only JPEG, JPG, and PNG are allowed."));
+      cb(new UnsupportedMediaTypeError(
+        "Invalid file type. Only JPEG, PNG, WebP, GIF, TIFF and HEIC/HEIF images are allowed.",
+      ));
     }
   },
 });
 
-// Helper to execute the Python backgroundremover command
-const execFileAsync = util.promisify(execFile);
+// Rejected uploads are reported with their status by the error handler in index.ts
+class UnsupportedMediaTypeError extends Error {
+  status = 415;
+}
+
+class PayloadTooLargeError extends Error {
+  status = 413;
+}
+
+class BadRequestError extends Error {
+  status = 400;
+}
+
+// The parts of an upload needed to process it, whether just received or stored earlier
+type UploadSource = Pick<Express.Multer.File, "path" | "originalname" | "filename">;
+
+// A multipart form field holding JSON, validated against a schema. Malformed
+// JSON fails as a ZodError too, so it is reported as a 400 like any other
+// invalid value.
+function jsonField<T extends z.ZodTypeAny>(name: string, schema: T) {
+  return z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${name} must be valid JSON` });
+        return z.NEVER;
+      }
+    })
+    .pipe(schema);
+}
+
+const settingsField = jsonField("settings", settingsSchema);
+const promptsField = jsonField("prompts", promptsSchema);
+
+// Segmenter used for server-side background removal
+const segmenter = createSegmenter();
 
 // Ensure directory exists
 async function ensureDir(dirPath: string) {
@@ -54,6 +113,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
   await ensureDir(uploadsDir);
   await ensureDir(processedDir);
 
+  // Settings sent alongside an upload as JSON, falling back to the saved defaults
+  async function resolveSettings(req: Request): Promise<ProcessingSettings> {
+    if (typeof req.body?.settings === "string") {
+      return settingsField.parse(req.body.settings);
+    }
+    return storage.getDefaultSettings();
+  }
+
+  // Prompts sent alongside an upload as JSON, such as a box around the subject
+  function resolvePrompts(req: Request): Prompts | undefined {
+    if (typeof req.body?.prompts === "string") {
+      return promptsField.parse(req.body.prompts);
+    }
+    return undefined;
+  }
+
+  // Process an upload and record what was produced, for later exports and
+  // refinement. A refinement passes the probabilities file of the image it
+  // refines, so only the point prompts are applied again.
+  async function processUpload(
+    file: UploadSource,
+    outputFilename: string,
+    settings: ProcessingSettings,
+    onStage?: (stage: ProcessingStage) => void,
+    prompts?: Prompts,
+    cachedProbabilitiesFilename?: string,
+  ) {
+    const cached = cachedProbabilitiesFilename
+      ? await readProbabilities(path.join(processedDir, cachedProbabilitiesFilename))
+      : undefined;
+    const { width, height, iccProfile, probabilities } = await processImage(
+      file.path,
+      path.join(processedDir, outputFilename),
+      settings,
+      segmenter,
+      onStage,
+      prompts,
+      cached,
+    );
+    let probabilitiesFilename = cachedProbabilitiesFilename;
+    if (probabilities !== cached) {
+      probabilitiesFilename = `${path.parse(outputFilename).name}.probabilities`;
+      await writeProbabilities(path.join(processedDir, probabilitiesFilename), probabilities);
+    }
+    const { model, alphaMatting, decontaminateColors, refineEdges, maskOps, foregroundThreshold, backgroundThreshold } = settings;
+    await storage.saveProcessedImage({
+      filename: outputFilename,
+      sourceName: file.originalname,
+      sourceFilename: file.filename,
+      settings: { model, alphaMatting, decontaminateColors, refineEdges, maskOps, foregroundThreshold, backgroundThreshold },
+      width,
+      height,
+      iccProfile,
+      prompts,
+      probabilitiesFilename,
+    });
+  }
+
+  function enqueueImage(
+    file: UploadSource,
+    settings: ProcessingSettings,
+    prompts?: Prompts,
+    cachedProbabilitiesFilename?: string,
+  ): JobInfo {
+    // Prefix with part of the upload id so files with the same name in one batch don't collide
+    const outputFilename = `${Date.now()}_${file.filename.slice(0, 8)}_${path.parse(file.originalname).name}.png`;
+
+    return jobQueue.enqueue(async (report) => {
+      await processUpload(file, outputFilename, settings, report, prompts, cachedProbabilitiesFilename);
+      return {
+        original: `/api/images/${file.filename}`,
+        processed: `/api/images/processed/${outputFilename}`,
+      };
+    });
+  }
+
 app.get('/sitemap.xml', (_req: Request, res: Response) => {
   res.sendFile(path.join(process.cwd(), 'sitemap.xml'));
 });
@@ -62,6 +197,9 @@ app.get('/generated-icon.png', (_req: Request, res: Response) => {
   res.sendFile(path.join(process.cwd(), 'generated-icon.png'));
 });
 
+// ONNX weights for the in-browser U²-Net models, e.g. models/u2net.onnx
+app.use('/models', express.static(path.join(process.cwd(), 'models')));
+
 app.get('/robots.txt', (_req: Request, res: Response) => {
   res.sendFile(path.join(process.cwd(), 'robots.txt'));
 });
@@ -98,38 +236,160 @@ app.get('/robots.txt', (_req: Request, res: Response) => {
 
     try {
       const settings = await storage.getDefaultSettings();
-      const inputPath = req.file.path;
       const outputFilename = `${Date.now()}_${path.parse(req.file.originalname).name}.png`;
-      const outputPath = path.join(processedDir, outputFilename);
 
-      // TODO: Implement actual background removal when Python package is available
-      console.log("Background removal would process with these settings:", settings);
-      
-      // For now, just copy the file to simulate processing
-      // This lets the UI flow continue to work without the Python dependency
-      await fs.copyFile(inputPath, outputPath);
+      await processUpload(req.file, outputFilename, settings);
 
-      // Return the path to the "processed" image 
-      // (which is currently just a copy of the original)
       res.json({
         original: `/api/images/${req.file.filename}`,
         processed: `/api/images/processed/${outputFilename}`,
       });
 
     } catch (error) {
+      if (error instanceof UnsupportedImageError) {
+        return res.status(415).json({ message: error.message });
+      }
       console.error("Error processing image:", error);
       res.status(500).json({ message: "Failed to process image" });
     }
   });
 
+  // Queue an image for background removal and return the job id immediately
+  app.post("/api/jobs", upload.single("image"), async (req: Request, res: Response) => {
+    if (!req.file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+
+    try {
+      const settings = await resolveSettings(req);
+      const prompts = resolvePrompts(req);
+      // Undecodable uploads are refused up front, as /api/upload does, rather than queued to fail
+      await checkImage(req.file.path);
+      res.status(202).json(enqueueImage(req.file, settings, prompts));
+    } catch (error) {
+      if (error instanceof UnsupportedImageError) {
+        res.status(415).json({ message: error.message });
+      } else if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        console.error("Error queueing image:", error);
+        res.status(500).json({ message: "Failed to queue image" });
+      }
+    }
+  });
+
+  // Queue several images at once, all processed with the same settings. Each
+  // image is reported on its own, so one that can't be decoded is refused
+  // without failing the rest.
+  app.post("/api/jobs/batch", upload.array("images", MAX_BATCH_FILES), async (req: Request, res: Response) => {
+    const files = req.files as Express.Multer.File[] | undefined;
+    if (!files || files.length === 0) {
+      return res.status(400).json({ message: "No files uploaded" });
+    }
+
+    try {
+      const settings = await resolveSettings(req);
+      // Every image is checked before any is queued, so an unexpected error queues none
+      const refusals: (string | undefined)[] = [];
+      for (const file of files) {
+        refusals.push(await checkImage(file.path).then(
+          () => undefined,
+          (error) => {
+            if (error instanceof UnsupportedImageError) return error.message;
+            throw error;
+          },
+        ));
+      }
+      const entries: BatchEntry[] = files.map((file, index) => {
+        const error = refusals[index];
+        return error ? { error } : { job: enqueueImage(file, settings) };
+      });
+      res.status(202).json({ entries });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        console.error("Error queueing batch:", error);
+        res.status(500).json({ message: "Failed to queue images" });
+      }
+    }
+  });
+
+  // Report the status of a queued job
+  app.get("/api/jobs/:id", (req: Request, res: Response) => {
+    const job = jobQueue.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    res.json(job);
+  });
+
+  // Stream job progress as Server-Sent Events, resuming after Last-Event-ID
+  app.get("/api/jobs/:id/events", (req: Request, res: Response) => {
+    const jobId = req.params.id;
+    const lastEventId = Number(req.get("Last-Event-ID") ?? req.query.lastEventId ?? 0) || 0;
+    const backlog = jobQueue.eventsSince(jobId, lastEventId);
+    if (!backlog) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    let unsubscribe: (() => void) | undefined;
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 15 * 1000);
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe?.();
+      res.end();
+    };
+
+    const send = (event: JobEvent) => {
+      res.write(`id: ${event.id}\nevent: progress\ndata: ${JSON.stringify(event.job)}\n\n`);
+      if (isFinished(event.job)) {
+        close();
+      }
+    };
+
+    req.on("close", close);
+    backlog.forEach(send);
+    if (!res.writableEnded) {
+      unsubscribe = jobQueue.subscribe(jobId, send);
+    }
+  });
+
   // Endpoint to serve original uploaded images
   app.get("/api/images/:filename", async (req: Request, res: Response) => {
     const filePath = path.join(uploadsDir, req.params.filename);
     try {
       await fs.access(filePath);
-      res.sendFile(filePath);
     } catch (error) {
-      res.status(404).json({ message: "Image not found" });
+      return res.status(404).json({ message: "Image not found" });
+    }
+
+    try {
+      // Uploads are stored without an extension, so sniff the format from the content
+      const { format } = await sharp(filePath).metadata().catch(() => ({ format: undefined }));
+      if (format && browserImageTypes.includes(`image/${format}`)) {
+        return res.type(format).sendFile(filePath);
+      }
+
+      // Convert HEIC, TIFF and the like to PNG so browsers can show the original
+      const image = await decodeImage(filePath);
+      const png = await sharp(image.data, {
+        raw: { width: image.width, height: image.height, channels: 4 },
+      }).png().toBuffer();
+      res.type("png").send(png);
+    } catch (error) {
+      if (error instanceof UnsupportedImageError) {
+        return res.status(415).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to load image" });
     }
   });
 
@@ -144,6 +404,38 @@ app.get('/robots.txt', (_req: Request, res: Response) => {
     }
   });
 
+  // Refine a processed image with point prompts, as a new job using the
+  // settings and box it was first processed with. The model's probabilities
+  // from the first run are reused unless a different box is given.
+  app.post("/api/images/processed/:filename/refine", async (req: Request, res: Response) => {
+    try {
+      const prompts = promptsSchema.parse(req.body?.prompts ?? {});
+      const record = await storage.getProcessedImage(path.basename(req.params.filename));
+      if (!record) {
+        return res.status(404).json({ message: "Processed image not found" });
+      }
+
+      const sourcePath = path.join(uploadsDir, record.sourceFilename);
+      try {
+        await fs.access(sourcePath);
+      } catch (error) {
+        return res.status(404).json({ message: "Original image not found" });
+      }
+
+      const source = { path: sourcePath, originalname: record.sourceName, filename: record.sourceFilename };
+      const cached = prompts.box ? undefined : record.probabilitiesFilename ?? undefined;
+      res.status(202).json(enqueueImage(source, record.settings, { ...prompts, box: prompts.box ?? record.prompts?.box }, cached));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else {
+        console.error("Error queueing refinement:", error);
+        res.status(500).json({ message: "Failed to queue image" });
+      }
+    }
+  });
+
   // Download processed image with options
   app.post("/api/download", async (req: Request, res: Response) => {
     try {
@@ -160,17 +452,23 @@ app.get('/robots.txt', (_req: Request, res: Response) => {
       
       try {
         await fs.access(filePath);
-        
-        // Set content type based on format
-        const contentType = downloadOptions.format === "png" ? "image/png" : "image/jpeg";
-        res.setHeader("Content-Type", contentType);
-        res.setHeader("Content-Disposition", `attachment; filename="background_removed.${downloadOptions.format}"`);
-        
-        // Send the file
-        res.sendFile(filePath);
       } catch (error) {
-        res.status(404).json({ message: "Processed image not found" });
+        return res.status(404).json({ message: "Processed image not found" });
       }
+
+      // Transcode to the requested format and quality, carrying metadata from the original upload
+      const settings = await storage.getDefaultSettings();
+      const record = await storage.getProcessedImage(filename);
+      const sourcePath = record ? path.join(uploadsDir, record.sourceFilename) : undefined;
+      const encoded = await encodeImage(filePath, downloadOptions, settings.backgroundColor, sourcePath);
+
+      // Name the download after the original upload when it is known
+      const baseName = record ? `${path.parse(record.sourceName).name}_background_removed` : "background_removed";
+
+      res.attachment(`${baseName}.${downloadOptions.format}`);
+      res.setHeader("Content-Type", encoded.contentType);
+      res.setHeader("Content-Length", encoded.data.length);
+      res.send(encoded.data);
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
@@ -181,12 +479,107 @@ app.get('/robots.txt', (_req: Request, res: Response) => {
     }
   });
 
+  // Download several processed images as one ZIP, with a manifest describing them
+  app.post("/api/download/archive", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { files, options } = archiveRequestSchema.parse(req.body);
+      const settings = await storage.getDefaultSettings();
+
+      // Resolve every file up front so a missing one fails before streaming starts
+      const entries = await Promise.all(files.map(async (file) => {
+        const filename = path.basename(file.filepath);
+        const filePath = path.join(processedDir, filename);
+        await fs.access(filePath);
+        return { filename, filePath, name: file.name, record: await storage.getProcessedImage(filename) };
+      })).catch((error) => {
+        if (error.code === "ENOENT") return null;
+        throw error;
+      });
+
+      if (!entries) {
+        return res.status(404).json({ message: "Processed image not found" });
+      }
+
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="background_removed.zip"`);
+
+      const archive = archiver("zip", { zlib: { level: 6 } });
+      archive.on("error", (error) => {
+        console.error("Error building archive:", error);
+        res.destroy(error);
+      });
+      archive.pipe(res);
+
+      const usedNames = new Set<string>();
+      const manifest = [];
+      for (const entry of entries) {
+        const sourcePath = entry.record ? path.join(uploadsDir, entry.record.sourceFilename) : undefined;
+        const encoded = await encodeImage(entry.filePath, options, settings.backgroundColor, sourcePath);
+        const baseName = path.parse(entry.name || entry.record?.sourceName || entry.filename).name;
+
+        let archiveName = `${baseName}.${options.format}`;
+        for (let i = 2; usedNames.has(archiveName); i++) {
+          archiveName = `${baseName}_${i}.${options.format}`;
+        }
+        usedNames.add(archiveName);
+
+        archive.append(encoded.data, { name: archiveName });
+        manifest.push({
+          file: archiveName,
+          source: entry.record?.sourceName ?? entry.filename,
+          settings: entry.record?.settings ?? null,
+          format: options.format,
+          quality: options.quality,
+          colorProfile: entry.record?.iccProfile && options.colorProfile === "preserve"
+            ? entry.record.iccProfile
+            : "sRGB",
+          width: encoded.width,
+          height: encoded.height,
+        });
+      }
+
+      archive.append(JSON.stringify({ images: manifest }, null, 2), { name: "manifest.json" });
+      await archive.finalize();
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ message: validationError.message });
+      } else if (!res.headersSent) {
+        next(error);
+      } else {
+        console.error("Error streaming archive:", error);
+        res.destroy();
+      }
+    }
+  });
+
+  // Limits multer enforces surface as MulterErrors, which would otherwise be 500s
+  app.use("/api", (error: unknown, _req: Request, _res: Response, next: NextFunction) => {
+    if (!(error instanceof multer.MulterError)) {
+      return next(error);
+    }
+    if (error.code === "LIMIT_FILE_SIZE") {
+      return next(new PayloadTooLargeError(
+        `File too large. Images can be up to ${MAX_UPLOAD_SIZE / (1024 * 1024)} MB.`,
+      ));
+    }
+    if (error.code === "LIMIT_UNEXPECTED_FILE") {
+      return next(new BadRequestError(
+        `Unexpected file in "${error.field}". A batch can hold up to ${MAX_BATCH_FILES} images.`,
+      ));
+    }
+    next(new BadRequestError(error.message));
+  });
+
   // Clean up uploaded and processed files periodically (every hour)
   setInterval(async () => {
     try {
       const now = Date.now();
       const oneHourAgo = now - 60 * 60 * 1000;
 
+      // Forget finished jobs whose files are about to be removed
+      jobQueue.prune(oneHourAgo);
+
       // Clean up temp uploads
       const uploadedFiles = await fs.readdir(uploadsDir);
       for (const file of uploadedFiles) {
@@ -204,6 +597,7 @@ app.get('/robots.txt', (_req: Request, res: Response) => {
         const stats = await fs.stat(filePath);
         if (stats.ctimeMs < oneHourAgo) {
           await fs.unlink(filePath);
+          await storage.deleteProcessedImage(file);
         }
       }
     } catch (error) {
@@ -0,0 +1,174 @@
+import path from "path";
+import os from "os";
+import fs from "fs/promises";
+import { execFile } from "child_process";
+import util from "util";
+import sharp from "sharp";
+import type { Region } from "@shared/prompts";
+import { TILING_MEGAPIXELS, segmentTiled, shouldTile } from "@shared/tiling";
+
+const execFileAsync = util.promisify(execFile);
+
+// Decoded image held in memory as interleaved RGBA bytes
+export interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface SegmentOptions {
+  model: string;
+}
+
+/**
+ * Copies a rectangle out of an image
+ */
+export function cropImage(image: RawImage, region: Region): RawImage {
+  const rowBytes = region.width * 4;
+  const data = Buffer.alloc(rowBytes * region.height);
+  for (let y = 0; y < region.height; y++) {
+    const start = ((region.y + y) * image.width + region.x) * 4;
+    image.data.copy(data, y * rowBytes, start, start + rowBytes);
+  }
+  return { data, width: region.width, height: region.height };
+}
+
+/**
+ * A segmenter turns an RGBA image into a per-pixel foreground probability
+ * map (0 = background, 1 = foreground) with one entry per pixel.
+ */
+export interface Segmenter {
+  readonly name: string;
+  segment(image: RawImage, options: SegmentOptions): Promise<Float32Array>;
+}
+
+/**
+ * Deterministic segmenter that needs no model weights. It treats a centred
+ * ellipse as the subject, with a soft falloff towards the edge, so the whole
+ * upload route can be exercised end to end.
+ */
+export class StubSegmenter implements Segmenter {
+  readonly name = "stub";
+
+  async segment(image: RawImage, _options: SegmentOptions): Promise<Float32Array> {
+    const { width, height } = image;
+    const probabilities = new Float32Array(width * height);
+    const cx = width / 2;
+    const cy = height / 2;
+    const rx = Math.max(width * 0.35, 1);
+    const ry = Math.max(height * 0.4, 1);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const dx = (x + 0.5 - cx) / rx;
+        const dy = (y + 0.5 - cy) / ry;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        // Fully foreground inside 0.8, fading out linearly until 1.2
+        probabilities[y * width + x] = Math.min(1, Math.max(0, (1.2 - distance) / 0.4));
+      }
+    }
+
+    return probabilities;
+  }
+}
+
+// Models the backgroundremover CLI doesn't ship, which are run with rembg instead
+const rembgModels = ["isnet-general-use"];
+
+/**
+ * Runs the Python `backgroundremover` CLI (or `rembg`, for the salient object
+ * models it lacks) as a local subprocess and reads the alpha channel of its
+ * output back as the probability map.
+ */
+export class SubprocessSegmenter implements Segmenter {
+  readonly name = "subprocess";
+
+  constructor(
+    private readonly command: string = "backgroundremover",
+    private readonly rembgCommand: string = "rembg",
+  ) {}
+
+  async segment(image: RawImage, options: SegmentOptions): Promise<Float32Array> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "segment-"));
+    const inputPath = path.join(workDir, "input.png");
+    const outputPath = path.join(workDir, "output.png");
+
+    try {
+      await sharp(image.data, {
+        raw: { width: image.width, height: image.height, channels: 4 },
+      })
+        .png()
+        .toFile(inputPath);
+
+      if (rembgModels.includes(options.model)) {
+        await execFileAsync(this.rembgCommand, ["i", "-m", options.model, inputPath, outputPath]);
+      } else {
+        await execFileAsync(this.command, ["-i", inputPath, "-o", outputPath, "-m", options.model]);
+      }
+
+      const { data, info } = await sharp(outputPath)
+        .resize(image.width, image.height, { fit: "fill" })
+        .ensureAlpha()
+        .extractChannel("alpha")
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      if (info.width !== image.width || info.height !== image.height) {
+        throw new Error("Segmenter output does not match input dimensions");
+      }
+
+      const probabilities = new Float32Array(image.width * image.height);
+      for (let i = 0; i < probabilities.length; i++) {
+        probabilities[i] = data[i] / 255;
+      }
+      return probabilities;
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Wraps a segmenter so images above a megapixel threshold are segmented in
+ * overlapping tiles, keeping edge detail that whole-image inference loses to
+ * downscaling. Smaller images go straight through.
+ */
+export class TiledSegmenter implements Segmenter {
+  readonly name: string;
+
+  constructor(
+    private readonly inner: Segmenter,
+    private readonly megapixels: number = TILING_MEGAPIXELS,
+  ) {
+    this.name = `tiled-${inner.name}`;
+  }
+
+  async segment(image: RawImage, options: SegmentOptions): Promise<Float32Array> {
+    if (!shouldTile(image.width, image.height, this.megapixels)) {
+      return this.inner.segment(image, options);
+    }
+
+    return segmentTiled(image.width, image.height, (tile) => this.inner.segment(cropImage(image, tile), options));
+  }
+}
+
+// Pick the segmenter implementation from the SEGMENTER environment variable
+export function createSegmenter(kind: string = process.env.SEGMENTER || "subprocess"): Segmenter {
+  // Tiling kicks in above TILING_MEGAPIXELS megapixels
+  const megapixels = Number(process.env.TILING_MEGAPIXELS) || TILING_MEGAPIXELS;
+
+  switch (kind) {
+    case "stub":
+      return new StubSegmenter();
+    case "subprocess":
+      return new TiledSegmenter(
+        new SubprocessSegmenter(
+          process.env.BACKGROUNDREMOVER_BIN || "backgroundremover",
+          process.env.REMBG_BIN || "rembg",
+        ),
+        megapixels,
+      );
+    default:
+      throw new Error(`Unknown segmenter: ${kind}`);
+  }
+}
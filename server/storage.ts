@@ -1,7 +1,10 @@
 import { 
   imageSettings, 
+  defaultMaskOps,
   type ImageSettings, 
   type InsertImageSettings, 
+  type ProcessedImage,
+  type InsertProcessedImage,
   users, 
   type User, 
   type InsertUser 
@@ -17,22 +20,37 @@ export interface IStorage {
   // Image settings operations
   getDefaultSettings(): Promise<ImageSettings>;
   updateSettings(settings: InsertImageSettings): Promise<ImageSettings>;
+
+  // Processed image operations
+  saveProcessedImage(image: InsertProcessedImage): Promise<ProcessedImage>;
+  getProcessedImage(filename: string): Promise<ProcessedImage | undefined>;
+  deleteProcessedImage(filename: string): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private settings: ImageSettings;
+  private processedImages: Map<string, ProcessedImage>;
   currentId: number;
+  currentProcessedImageId: number;
 
   constructor() {
     this.users = new Map();
+    this.processedImages = new Map();
     this.currentId = 1;
+    this.currentProcessedImageId = 1;
     
     // Default settings
     this.settings = {
       id: 1,
       model: "u2net",
       alphaMatting: false,
+      decontaminateColors: false,
+      refineEdges: false,
+      separatePeople: false,
+      bodyParts: false,
+      maskOps: defaultMaskOps,
+      tfBackend: "auto",
       foregroundThreshold: 50,
       backgroundThreshold: 50,
       backgroundType: "transparent",
@@ -71,6 +89,21 @@ export class MemStorage implements IStorage {
     };
     return this.settings;
   }
+
+  async saveProcessedImage(insertImage: InsertProcessedImage): Promise<ProcessedImage> {
+    const id = this.currentProcessedImageId++;
+    const image: ProcessedImage = { ...insertImage, iccProfile: insertImage.iccProfile ?? null, prompts: insertImage.prompts ?? null, probabilitiesFilename: insertImage.probabilitiesFilename ?? null, id };
+    this.processedImages.set(image.filename, image);
+    return image;
+  }
+
+  async getProcessedImage(filename: string): Promise<ProcessedImage | undefined> {
+    return this.processedImages.get(filename);
+  }
+
+  async deleteProcessedImage(filename: string): Promise<void> {
+    this.processedImages.delete(filename);
+  }
 }
 
 export const storage = new MemStorage();
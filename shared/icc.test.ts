@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { readIccDescription } from "./icc";
+
+// A profile whose only tag is a v2 'desc' with the given text
+function descProfile(text: string): Uint8Array {
+  const tagOffset = 132 + 12;
+  const profile = new Uint8Array(tagOffset + 12 + text.length + 1);
+  const view = new DataView(profile.buffer);
+  view.setUint32(0, profile.length);
+  view.setUint32(128, 1);
+  profile.set([..."desc"].map((c) => c.charCodeAt(0)), 132);
+  view.setUint32(136, tagOffset);
+  view.setUint32(140, profile.length - tagOffset);
+  profile.set([..."desc"].map((c) => c.charCodeAt(0)), tagOffset);
+  view.setUint32(tagOffset + 8, text.length + 1);
+  profile.set([...text].map((c) => c.charCodeAt(0)), tagOffset + 12);
+  return profile;
+}
+
+// A profile whose only tag is a v4 'mluc' with one UTF-16BE record
+function mlucProfile(text: string): Uint8Array {
+  const tagOffset = 132 + 12;
+  const profile = new Uint8Array(tagOffset + 28 + text.length * 2);
+  const view = new DataView(profile.buffer);
+  view.setUint32(128, 1);
+  profile.set([..."desc"].map((c) => c.charCodeAt(0)), 132);
+  view.setUint32(136, tagOffset);
+  profile.set([..."mluc"].map((c) => c.charCodeAt(0)), tagOffset);
+  view.setUint32(tagOffset + 8, 1);
+  view.setUint32(tagOffset + 12, 12);
+  view.setUint32(tagOffset + 20, text.length * 2);
+  view.setUint32(tagOffset + 24, 28);
+  [...text].forEach((c, i) => view.setUint16(tagOffset + 28 + i * 2, c.charCodeAt(0)));
+  return profile;
+}
+
+describe("readIccDescription", () => {
+  it("reads v2 and v4 descriptions", () => {
+    expect(readIccDescription(descProfile("Display P3"))).toBe("Display P3");
+    expect(readIccDescription(mlucProfile("Adobe RGB"))).toBe("Adobe RGB");
+  });
+
+  it("returns undefined for a truncated profile", () => {
+    const profile = descProfile("Display P3");
+    expect(readIccDescription(profile.subarray(0, 150))).toBeUndefined();
+    expect(readIccDescription(mlucProfile("Adobe RGB").subarray(0, 160))).toBeUndefined();
+  });
+
+  it("stops at the end of the profile whatever the tag count says", () => {
+    const profile = descProfile("Display P3");
+    const view = new DataView(profile.buffer);
+    view.setUint32(128, 0xffffffff);
+    // Move the tag out of the way so the loop has to run off the table
+    profile.set([0, 0, 0, 0], 132);
+
+    const start = Date.now();
+    expect(readIccDescription(profile)).toBeUndefined();
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it("caps a description whose length runs past the profile", () => {
+    const profile = descProfile("Display P3");
+    new DataView(profile.buffer).setUint32(132 + 12 + 8, 0x7fffffff);
+    expect(readIccDescription(profile)).toBeUndefined();
+  });
+});
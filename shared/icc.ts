@@ -0,0 +1,68 @@
+// Reading ICC colour profiles embedded in uploads. Profiles come straight
+// from uploaded files, so every offset and length is checked before use.
+
+// Longest description returned, in characters
+const MAX_DESCRIPTION_LENGTH = 256;
+
+/**
+ * The human-readable description of an ICC profile, e.g. "Display P3".
+ * Handles both the v2 'desc' and the v4 'mluc' tag encodings. Returns
+ * undefined for profiles without a readable description, including
+ * truncated or corrupt ones.
+ */
+export function readIccDescription(profile: Uint8Array): string | undefined {
+  if (profile.length < 132) {
+    return undefined;
+  }
+
+  const view = new DataView(profile.buffer, profile.byteOffset, profile.byteLength);
+  const fits = (offset: number, length: number) => offset >= 0 && length >= 0 && offset + length <= profile.length;
+  const ascii = (offset: number, length: number) => {
+    let text = "";
+    for (let i = 0; i < length; i++) {
+      text += String.fromCharCode(profile[offset + i]);
+    }
+    return text;
+  };
+
+  const tagCount = view.getUint32(128);
+  // The tag table can't run past the end of the profile, whatever the count says
+  for (let i = 0; i < tagCount && 132 + i * 12 + 12 <= profile.length; i++) {
+    const entry = 132 + i * 12;
+    if (ascii(entry, 4) !== "desc") {
+      continue;
+    }
+
+    const offset = view.getUint32(entry + 4);
+    if (!fits(offset, 12)) {
+      return undefined;
+    }
+    const type = ascii(offset, 4);
+    if (type === "desc") {
+      const length = Math.min(view.getUint32(offset + 8), MAX_DESCRIPTION_LENGTH);
+      if (!fits(offset + 12, length)) {
+        return undefined;
+      }
+      return ascii(offset + 12, length).replace(/\0+$/, "") || undefined;
+    }
+    if (type === "mluc") {
+      // First localised record: length and offset of a UTF-16BE string
+      if (!fits(offset, 28)) {
+        return undefined;
+      }
+      const length = Math.min(view.getUint32(offset + 20), MAX_DESCRIPTION_LENGTH * 2);
+      const start = offset + view.getUint32(offset + 24);
+      if (!fits(start, length)) {
+        return undefined;
+      }
+      let text = "";
+      for (let j = 0; j + 1 < length; j += 2) {
+        text += String.fromCharCode(view.getUint16(start + j));
+      }
+      return text.replace(/\0+$/, "") || undefined;
+    }
+    return undefined;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { applyMaskOps, closing, dilate, erode, fillHoles, opening, removeIslands } from "./maskOps";
+import { defaultMaskOps } from "./schema";
+
+// A mask with the given [x, y, width, height] rectangles set to 255
+function rects(width: number, height: number, boxes: [number, number, number, number][]): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (const [left, top, boxWidth, boxHeight] of boxes) {
+    for (let y = top; y < top + boxHeight; y++) {
+      mask.fill(255, y * width + left, y * width + left + boxWidth);
+    }
+  }
+  return mask;
+}
+
+// Number of foreground pixels
+function area(mask: Uint8Array): number {
+  return mask.reduce((total, alpha) => total + (alpha >= 128 ? 1 : 0), 0);
+}
+
+describe("morphology", () => {
+  it("erodes and dilates a square by the radius", () => {
+    const mask = rects(20, 20, [[5, 5, 10, 10]]);
+
+    expect(erode(mask, 20, 20, 2)).toEqual(rects(20, 20, [[7, 7, 6, 6]]));
+    expect(dilate(mask, 20, 20, 2)).toEqual(rects(20, 20, [[3, 3, 14, 14]]));
+  });
+
+  it("treats the image border as neither foreground nor background", () => {
+    const full = new Uint8Array(10 * 10).fill(255);
+    expect(erode(full, 10, 10, 3)).toEqual(full);
+    expect(dilate(new Uint8Array(100), 10, 10, 3)).toEqual(new Uint8Array(100));
+  });
+
+  it("opens away specks and closes narrow gaps", () => {
+    const speckled = rects(20, 20, [[4, 4, 10, 10], [17, 17, 1, 1]]);
+    expect(opening(speckled, 20, 20, 1)).toEqual(rects(20, 20, [[4, 4, 10, 10]]));
+
+    const split = rects(20, 20, [[2, 4, 7, 10], [10, 4, 7, 10]]);
+    expect(closing(split, 20, 20, 1)).toEqual(rects(20, 20, [[2, 4, 15, 10]]));
+  });
+});
+
+describe("removeIslands", () => {
+  it("clears regions smaller than the minimum area and keeps the rest", () => {
+    const mask = rects(20, 20, [[2, 2, 8, 8], [15, 15, 2, 2]]);
+    expect(removeIslands(mask, 20, 20, 5)).toEqual(rects(20, 20, [[2, 2, 8, 8]]));
+  });
+
+  it("counts diagonal neighbours as one region", () => {
+    const mask = new Uint8Array(4 * 4);
+    mask[0] = mask[5] = mask[10] = 255;
+    expect(removeIslands(mask, 4, 4, 3)).toEqual(mask);
+  });
+});
+
+describe("fillHoles", () => {
+  it("fills small enclosed holes but not larger ones", () => {
+    const mask = rects(20, 20, [[2, 2, 16, 16]]);
+    mask[5 * 20 + 5] = 0;
+    for (let y = 8; y < 14; y++) mask.fill(0, y * 20 + 8, y * 20 + 14);
+
+    const result = fillHoles(mask, 20, 20, 10);
+    expect(result[5 * 20 + 5]).toBe(255);
+    expect(result[10 * 20 + 10]).toBe(0);
+  });
+
+  it("leaves background touching the border alone", () => {
+    const mask = rects(10, 10, [[0, 2, 10, 6]]);
+    mask.fill(0, 4 * 10, 4 * 10 + 3);
+    expect(fillHoles(mask, 10, 10, 100)).toEqual(mask);
+  });
+});
+
+describe("applyMaskOps", () => {
+  it("leaves the mask as it is with the defaults", () => {
+    const mask = rects(10, 10, [[2, 2, 5, 5]]);
+    expect(applyMaskOps(mask, 10, 10, defaultMaskOps)).toEqual(mask);
+  });
+
+  it("sizes islands as a percentage of the image", () => {
+    // 1% of 20x20 is 4 pixels: a 2x2 speck survives, a single pixel doesn't
+    const mask = rects(20, 20, [[2, 2, 2, 2], [10, 10, 1, 1]]);
+    const result = applyMaskOps(mask, 20, 20, { ...defaultMaskOps, minIslandArea: 1 });
+    expect(area(result)).toBe(4);
+  });
+
+  it("feathers the edge evenly on every side", () => {
+    const mask = rects(20, 20, [[5, 5, 10, 10]]);
+    const result = applyMaskOps(mask, 20, 20, { ...defaultMaskOps, featherRadius: 2 });
+    expect(result[10 * 20 + 10]).toBe(255);
+    expect(result[0]).toBe(0);
+    expect(result[10 * 20 + 5]).toBeGreaterThan(0);
+    expect(result[10 * 20 + 5]).toBeLessThan(255);
+    expect(result[10 * 20 + 14]).toBe(result[10 * 20 + 5]);
+    expect(result[5 * 20 + 10]).toBe(result[10 * 20 + 5]);
+  });
+});
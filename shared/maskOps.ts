@@ -0,0 +1,270 @@
+// Morphological post-processing of alpha masks, shared by the client and
+// server pipelines. Masks are one byte per pixel, row by row.
+
+import type { MaskOps } from "./schema";
+
+// Alpha at or above this counts as foreground when finding islands and holes
+const FOREGROUND_CUTOFF = 128;
+
+// Sliding min or max over windows of 2r+1 rows and columns, in O(n) with
+// the van Herk/Gil-Werman block prefix and suffix scans. Lines are padded
+// with 255 for min and 0 for max, so windows overhanging the image only see
+// the pixels inside.
+function morph(mask: Uint8Array, width: number, height: number, radius: number, useMin: boolean): Uint8Array {
+  const size = 2 * radius + 1;
+  const identity = useMin ? 255 : 0;
+
+  // Row pass: one padded line at a time
+  const rows = new Uint8Array(mask.length);
+  const paddedWidth = width + 2 * radius;
+  const line = new Uint8Array(paddedWidth);
+  const prefix = new Uint8Array(paddedWidth);
+  const suffix = new Uint8Array(paddedWidth);
+  for (let y = 0; y < height; y++) {
+    line.fill(identity);
+    line.set(mask.subarray(y * width, (y + 1) * width), radius);
+    for (let start = 0; start < paddedWidth; start += size) {
+      const end = Math.min(start + size, paddedWidth);
+      prefix[start] = line[start];
+      for (let i = start + 1; i < end; i++) {
+        prefix[i] = useMin ? Math.min(prefix[i - 1], line[i]) : Math.max(prefix[i - 1], line[i]);
+      }
+      suffix[end - 1] = line[end - 1];
+      for (let i = end - 2; i >= start; i--) {
+        suffix[i] = useMin ? Math.min(suffix[i + 1], line[i]) : Math.max(suffix[i + 1], line[i]);
+      }
+    }
+    // Output x's window is line[x, x + 2r], which spans at most two blocks
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      rows[row + x] = useMin ? Math.min(suffix[x], prefix[x + size - 1]) : Math.max(suffix[x], prefix[x + size - 1]);
+    }
+  }
+
+  // Column pass: the same scans, a whole row at a time so memory is read in order
+  const paddedHeight = height + 2 * radius;
+  const paddedRow = (y: number) => (y < radius || y >= height + radius ? null : rows.subarray((y - radius) * width, (y - radius + 1) * width));
+  const columnPrefix = new Uint8Array(paddedHeight * width);
+  const columnSuffix = new Uint8Array(paddedHeight * width);
+  for (let start = 0; start < paddedHeight; start += size) {
+    const end = Math.min(start + size, paddedHeight);
+    for (let y = start; y < end; y++) {
+      const source = paddedRow(y);
+      const target = columnPrefix.subarray(y * width, (y + 1) * width);
+      if (source) target.set(source);
+      else target.fill(identity);
+      if (y === start) continue;
+      for (let x = 0, previous = (y - 1) * width; x < width; x++) {
+        target[x] = useMin ? Math.min(target[x], columnPrefix[previous + x]) : Math.max(target[x], columnPrefix[previous + x]);
+      }
+    }
+    for (let y = end - 1; y >= start; y--) {
+      const source = paddedRow(y);
+      const target = columnSuffix.subarray(y * width, (y + 1) * width);
+      if (source) target.set(source);
+      else target.fill(identity);
+      if (y === end - 1) continue;
+      for (let x = 0, next = (y + 1) * width; x < width; x++) {
+        target[x] = useMin ? Math.min(target[x], columnSuffix[next + x]) : Math.max(target[x], columnSuffix[next + x]);
+      }
+    }
+  }
+
+  const result = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    const top = y * width;
+    const bottom = (y + size - 1) * width;
+    for (let x = 0; x < width; x++) {
+      result[top + x] = useMin
+        ? Math.min(columnSuffix[top + x], columnPrefix[bottom + x])
+        : Math.max(columnSuffix[top + x], columnPrefix[bottom + x]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Shrink the foreground by `radius` pixels
+ */
+export function erode(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  return morph(mask, width, height, radius, true);
+}
+
+/**
+ * Grow the foreground by `radius` pixels
+ */
+export function dilate(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  return morph(mask, width, height, radius, false);
+}
+
+/**
+ * Erode then dilate: removes specks and thin spurs narrower than the radius
+ */
+export function opening(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  return dilate(erode(mask, width, height, radius), width, height, radius);
+}
+
+/**
+ * Dilate then erode: closes gaps and notches narrower than the radius
+ */
+export function closing(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  return erode(dilate(mask, width, height, radius), width, height, radius);
+}
+
+// Label the 8-connected regions where `inside` holds, returning each pixel's
+// region (-1 outside), every region's area, and whether it touches the border
+function labelRegions(mask: Uint8Array, width: number, height: number, inside: (alpha: number) => boolean) {
+  const labels = new Int32Array(mask.length).fill(-1);
+  const areas: number[] = [];
+  const touchesBorder: boolean[] = [];
+  const stack: number[] = [];
+
+  for (let seed = 0; seed < mask.length; seed++) {
+    if (labels[seed] !== -1 || !inside(mask[seed])) continue;
+
+    const label = areas.length;
+    let area = 0;
+    let border = false;
+    labels[seed] = label;
+    stack.push(seed);
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      area++;
+      const x = i % width;
+      const y = (i - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) border = true;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const j = ny * width + nx;
+          if (labels[j] === -1 && inside(mask[j])) {
+            labels[j] = label;
+            stack.push(j);
+          }
+        }
+      }
+    }
+    areas.push(area);
+    touchesBorder.push(border);
+  }
+  return { labels, areas, touchesBorder };
+}
+
+/**
+ * Clear foreground regions smaller than `minArea` pixels, e.g. stray
+ * patches of background the model mistook for the subject
+ */
+export function removeIslands(mask: Uint8Array, width: number, height: number, minArea: number): Uint8Array {
+  const { labels, areas } = labelRegions(mask, width, height, (alpha) => alpha >= FOREGROUND_CUTOFF);
+  const result = new Uint8Array(mask);
+  for (let i = 0; i < result.length; i++) {
+    if (labels[i] !== -1 && areas[labels[i]] < minArea) result[i] = 0;
+  }
+  return result;
+}
+
+/**
+ * Fill background regions enclosed by the foreground and smaller than
+ * `maxArea` pixels. Larger gaps, such as between an arm and the body, are kept.
+ */
+export function fillHoles(mask: Uint8Array, width: number, height: number, maxArea: number): Uint8Array {
+  const { labels, areas, touchesBorder } = labelRegions(mask, width, height, (alpha) => alpha < FOREGROUND_CUTOFF);
+  const result = new Uint8Array(mask);
+  for (let i = 0; i < result.length; i++) {
+    const label = labels[i];
+    if (label !== -1 && !touchesBorder[label] && areas[label] < maxArea) result[i] = 255;
+  }
+  return result;
+}
+
+/**
+ * Soften the mask's edges with two box blurs of `radius`, close to a Gaussian
+ */
+export function feather(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  let values = new Float32Array(mask);
+  for (let pass = 0; pass < 2; pass++) {
+    values = boxBlur(values, width, height, radius);
+  }
+  const result = new Uint8Array(mask.length);
+  for (let i = 0; i < result.length; i++) {
+    result[i] = Math.round(values[i]);
+  }
+  return result;
+}
+
+// Mean over a (2r+1)² window, clamped at the borders, as two running-sum
+// passes. The column sums are kept for a whole row at a time so memory is
+// read in order.
+function boxBlur(values: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const rows = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let x = 0; x <= Math.min(radius, width - 1); x++) {
+      sum += values[row + x];
+    }
+    for (let x = 0; x < width; x++) {
+      rows[row + x] = sum / (Math.min(width - 1, x + radius) - Math.max(0, x - radius) + 1);
+      if (x + radius + 1 < width) sum += values[row + x + radius + 1];
+      if (x - radius >= 0) sum -= values[row + x - radius];
+    }
+  }
+
+  const result = new Float32Array(values.length);
+  const sums = new Float64Array(width);
+  for (let y = 0; y <= Math.min(radius, height - 1); y++) {
+    for (let x = 0; x < width; x++) sums[x] += rows[y * width + x];
+  }
+  for (let y = 0; y < height; y++) {
+    const count = Math.min(height - 1, y + radius) - Math.max(0, y - radius) + 1;
+    for (let x = 0; x < width; x++) {
+      result[y * width + x] = sums[x] / count;
+    }
+    if (y + radius + 1 < height) {
+      for (let x = 0, row = (y + radius + 1) * width; x < width; x++) sums[x] += rows[row + x];
+    }
+    if (y - radius >= 0) {
+      for (let x = 0, row = (y - radius) * width; x < width; x++) sums[x] -= rows[row + x];
+    }
+  }
+  return result;
+}
+
+/**
+ * Run the configured mask operations in order: morphology, island removal,
+ * hole filling, then feathering. Island and hole sizes are percentages of
+ * the image area, so they behave the same at any resolution.
+ */
+export function applyMaskOps(mask: Uint8Array, width: number, height: number, ops: MaskOps): Uint8Array {
+  let result = mask;
+  switch (ops.operation) {
+    case "erode":
+      result = erode(result, width, height, ops.radius);
+      break;
+    case "dilate":
+      result = dilate(result, width, height, ops.radius);
+      break;
+    case "open":
+      result = opening(result, width, height, ops.radius);
+      break;
+    case "close":
+      result = closing(result, width, height, ops.radius);
+      break;
+  }
+
+  const area = width * height;
+  if (ops.minIslandArea > 0) {
+    result = removeIslands(result, width, height, (ops.minIslandArea / 100) * area);
+  }
+  if (ops.maxHoleArea > 0) {
+    result = fillHoles(result, width, height, (ops.maxHoleArea / 100) * area);
+  }
+  if (ops.featherRadius > 0) {
+    result = feather(result, width, height, ops.featherRadius);
+  }
+  return result;
+}
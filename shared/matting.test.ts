@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { createTrimap, matteAlpha, TRIMAP_BACKGROUND, TRIMAP_FOREGROUND, TRIMAP_UNKNOWN } from "./matting";
+
+// Probabilities for a width x height image: 0 left of `edge`, 1 from it on
+function step(width: number, height: number, edge: number): Float32Array {
+  const probabilities = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    probabilities.fill(1, y * width + edge, (y + 1) * width);
+  }
+  return probabilities;
+}
+
+describe("createTrimap", () => {
+  it("marks a band of the radius around the boundary as unknown", () => {
+    const trimap = createTrimap(step(20, 5, 10), 20, 5, { foregroundThreshold: 0.5, backgroundThreshold: 0.5 }, 2);
+
+    const row = Array.from(trimap.subarray(2 * 20, 3 * 20));
+    expect(row.slice(0, 8).every((value) => value === TRIMAP_BACKGROUND)).toBe(true);
+    expect(row.slice(8, 12).every((value) => value === TRIMAP_UNKNOWN)).toBe(true);
+    expect(row.slice(12).every((value) => value === TRIMAP_FOREGROUND)).toBe(true);
+  });
+
+  it("marks probabilities between the thresholds as unknown, whichever way round they are", () => {
+    const probabilities = new Float32Array([0.1, 0.4, 0.6, 0.9]);
+    const expected = [TRIMAP_BACKGROUND, TRIMAP_UNKNOWN, TRIMAP_UNKNOWN, TRIMAP_FOREGROUND];
+
+    // Away from any boundary the band plays no part, so radius 0
+    const trimap = createTrimap(probabilities, 4, 1, { foregroundThreshold: 0.8, backgroundThreshold: 0.2 }, 0);
+    const swapped = createTrimap(probabilities, 4, 1, { foregroundThreshold: 0.2, backgroundThreshold: 0.8 }, 0);
+    expect(Array.from(trimap)).toEqual(expected);
+    expect(Array.from(swapped)).toEqual(expected);
+  });
+
+  it("has no band in an image without a boundary", () => {
+    const trimap = createTrimap(new Float32Array(25).fill(1), 5, 5, { foregroundThreshold: 0.5, backgroundThreshold: 0.5 }, 2);
+    expect(trimap.every((value) => value === TRIMAP_FOREGROUND)).toBe(true);
+  });
+});
+
+describe("matteAlpha", () => {
+  it("keeps known regions and solves a soft edge between them", () => {
+    // Dark background on the left, bright subject on the right
+    const width = 32;
+    const height = 16;
+    const rgba = new Uint8Array(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+      rgba.fill(i % width >= 16 ? 230 : 20, i * 4, i * 4 + 3);
+      rgba[i * 4 + 3] = 255;
+    }
+
+    const alpha = matteAlpha(rgba, width, height, step(width, height, 16), { foregroundThreshold: 0.5, backgroundThreshold: 0.5 });
+    const row = 8 * width;
+    expect(alpha[row]).toBe(0);
+    expect(alpha[row + width - 1]).toBe(255);
+    for (let x = 1; x < width; x++) {
+      expect(alpha[row + x]).toBeGreaterThanOrEqual(alpha[row + x - 1]);
+    }
+  });
+});
@@ -0,0 +1,500 @@
+// Trimap-based alpha matting, shared by the client and server pipelines
+
+export const TRIMAP_BACKGROUND = 0;
+export const TRIMAP_UNKNOWN = 128;
+export const TRIMAP_FOREGROUND = 255;
+
+// Closed-form matting solver: window radius, regularisation, and how strongly
+// known trimap pixels and the model's probabilities constrain the solution
+const SOLVER_RADIUS = 2;
+const SOLVER_EPSILON = 1e-5;
+const KNOWN_WEIGHT = 100;
+const PRIOR_WEIGHT = 0.01;
+const SOLVER_ITERATIONS = 30;
+
+// Larger images are solved at reduced size and upsampled with a guided filter
+const MAX_SOLVER_PIXELS = 512 * 512;
+const UPSAMPLE_EPSILON = 1e-4;
+
+// Coarse-to-fine refinement: the model sees a copy at most this many pixels
+// on its long side
+export const COARSE_MAX_SIDE = 1024;
+const REFINE_EPSILON = 1e-3;
+
+// Full-resolution guided filtering runs in strips of this many rows, which
+// bounds the filter's memory use on large images
+const GUIDE_STRIP_ROWS = 256;
+
+// Alpha values within this distance of 0 or 255 count as pure background or foreground
+const PURE_ALPHA_MARGIN = 5;
+
+export interface MattingOptions {
+  // Probability (0-1) at or above which a pixel is certainly foreground
+  foregroundThreshold: number;
+  // Probability (0-1) at or below which a pixel is certainly background
+  backgroundThreshold: number;
+}
+
+// Sum over a (2r+1)² window, clamped at the image borders, as two running-sum passes
+function boxSum(src: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const rows = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let x = 0; x <= Math.min(radius, width - 1); x++) {
+      sum += src[row + x];
+    }
+    for (let x = 0; x < width; x++) {
+      rows[row + x] = sum;
+      if (x + radius + 1 < width) sum += src[row + x + radius + 1];
+      if (x - radius >= 0) sum -= src[row + x - radius];
+    }
+  }
+
+  const result = new Float32Array(width * height);
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = 0; y <= Math.min(radius, height - 1); y++) {
+      sum += rows[y * width + x];
+    }
+    for (let y = 0; y < height; y++) {
+      result[y * width + x] = sum;
+      if (y + radius + 1 < height) sum += rows[(y + radius + 1) * width + x];
+      if (y - radius >= 0) sum -= rows[(y - radius) * width + x];
+    }
+  }
+  return result;
+}
+
+/**
+ * Colour statistics of an image over (2r+1)² windows, for guided filtering.
+ * The filter models its output as a local linear function of the RGB
+ * values (He et al.), so it follows edges in the image.
+ */
+class ColourGuide {
+  private readonly channels: Float32Array[];
+  // Number of pixels in each window, smaller at the borders
+  readonly counts: Float32Array;
+  private readonly means: Float32Array[];
+  // Inverse of each window's regularised colour covariance: rr, rg, rb, gg, gb, bb
+  private readonly inverse: Float32Array[];
+
+  constructor(
+    rgba: ArrayLike<number>,
+    readonly width: number,
+    readonly height: number,
+    readonly radius: number,
+    epsilon: number,
+  ) {
+    const n = width * height;
+    this.channels = [0, 1, 2].map((c) => {
+      const channel = new Float32Array(n);
+      for (let i = 0; i < n; i++) {
+        channel[i] = rgba[i * 4 + c] / 255;
+      }
+      return channel;
+    });
+    this.counts = boxSum(new Float32Array(n).fill(1), width, height, radius);
+    this.means = this.channels.map((channel) => this.mean(channel));
+
+    const [red, green, blue] = this.channels;
+    const [meanR, meanG, meanB] = this.means;
+    const covariance = (a: Float32Array, b: Float32Array, meanA: Float32Array, meanB: Float32Array) => {
+      const result = this.mean(multiply(a, b));
+      for (let i = 0; i < n; i++) {
+        result[i] -= meanA[i] * meanB[i];
+      }
+      return result;
+    };
+    const rr = covariance(red, red, meanR, meanR);
+    const rg = covariance(red, green, meanR, meanG);
+    const rb = covariance(red, blue, meanR, meanB);
+    const gg = covariance(green, green, meanG, meanG);
+    const gb = covariance(green, blue, meanG, meanB);
+    const bb = covariance(blue, blue, meanB, meanB);
+
+    this.inverse = Array.from({ length: 6 }, () => new Float32Array(n));
+    for (let i = 0; i < n; i++) {
+      const vr = rr[i] + epsilon;
+      const vg = gg[i] + epsilon;
+      const vb = bb[i] + epsilon;
+      // Adjugate of the symmetric 3x3 matrix over its determinant
+      const invRR = vg * vb - gb[i] * gb[i];
+      const invRG = gb[i] * rb[i] - rg[i] * vb;
+      const invRB = rg[i] * gb[i] - vg * rb[i];
+      const determinant = vr * invRR + rg[i] * invRG + rb[i] * invRB;
+
+      this.inverse[0][i] = invRR / determinant;
+      this.inverse[1][i] = invRG / determinant;
+      this.inverse[2][i] = invRB / determinant;
+      this.inverse[3][i] = (vr * vb - rb[i] * rb[i]) / determinant;
+      this.inverse[4][i] = (rb[i] * rg[i] - vr * gb[i]) / determinant;
+      this.inverse[5][i] = (vr * vg - rg[i] * rg[i]) / determinant;
+    }
+  }
+
+  private mean(values: Float32Array): Float32Array {
+    const result = boxSum(values, this.width, this.height, this.radius);
+    for (let i = 0; i < result.length; i++) {
+      result[i] /= this.counts[i];
+    }
+    return result;
+  }
+
+  // The guided filter output for an input, e.g. a rough alpha
+  filter(input: Float32Array): Float32Array {
+    const n = input.length;
+    const [red, green, blue] = this.channels;
+    const [meanR, meanG, meanB] = this.means;
+    const meanP = this.mean(input);
+    const corrRP = this.mean(multiply(red, input));
+    const corrGP = this.mean(multiply(green, input));
+    const corrBP = this.mean(multiply(blue, input));
+
+    const aR = new Float32Array(n);
+    const aG = new Float32Array(n);
+    const aB = new Float32Array(n);
+    const b = new Float32Array(n);
+    const [invRR, invRG, invRB, invGG, invGB, invBB] = this.inverse;
+    for (let i = 0; i < n; i++) {
+      const covR = corrRP[i] - meanR[i] * meanP[i];
+      const covG = corrGP[i] - meanG[i] * meanP[i];
+      const covB = corrBP[i] - meanB[i] * meanP[i];
+      aR[i] = invRR[i] * covR + invRG[i] * covG + invRB[i] * covB;
+      aG[i] = invRG[i] * covR + invGG[i] * covG + invGB[i] * covB;
+      aB[i] = invRB[i] * covR + invGB[i] * covG + invBB[i] * covB;
+      b[i] = meanP[i] - aR[i] * meanR[i] - aG[i] * meanG[i] - aB[i] * meanB[i];
+    }
+
+    const meanAR = this.mean(aR);
+    const meanAG = this.mean(aG);
+    const meanAB = this.mean(aB);
+    const meanB0 = this.mean(b);
+    const output = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+      output[i] = meanAR[i] * red[i] + meanAG[i] * green[i] + meanAB[i] * blue[i] + meanB0[i];
+    }
+    return output;
+  }
+}
+
+function multiply(a: Float32Array, b: Float32Array): Float32Array {
+  const result = new Float32Array(a.length);
+  for (let i = 0; i < a.length; i++) {
+    result[i] = a[i] * b[i];
+  }
+  return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Closed-form matting (Levin et al.) with the large-kernel matting Laplacian
+ * of He et al.: L·p = |w|·(p - guidedFilter(p)), so conjugate gradient can
+ * solve (L + Λ)·α = Λ·prior with box filters alone. Λ pins known trimap
+ * pixels and weakly pulls unknown ones towards the prior.
+ */
+function solveClosedForm(
+  rgba: ArrayLike<number>,
+  width: number,
+  height: number,
+  trimap: Uint8Array,
+  prior: Float32Array,
+): Float32Array {
+  const n = width * height;
+  const windowArea = (2 * SOLVER_RADIUS + 1) ** 2;
+  const guide = new ColourGuide(rgba, width, height, SOLVER_RADIUS, SOLVER_EPSILON / windowArea);
+  const counts = guide.counts;
+
+  const weights = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    weights[i] = trimap[i] === TRIMAP_UNKNOWN ? PRIOR_WEIGHT : KNOWN_WEIGHT;
+  }
+  const apply = (p: Float32Array) => {
+    const filtered = guide.filter(p);
+    const result = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+      result[i] = counts[i] * (p[i] - filtered[i]) + weights[i] * p[i];
+    }
+    return result;
+  };
+
+  // Start from the prior, which is already close in most of the image
+  const alpha = Float32Array.from(prior);
+  const applied = apply(alpha);
+  const residual = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    residual[i] = weights[i] * prior[i] - applied[i];
+  }
+  const direction = Float32Array.from(residual);
+  let residualNorm = dot(residual, residual);
+
+  for (let iteration = 0; iteration < SOLVER_ITERATIONS && residualNorm > 1e-6; iteration++) {
+    const step = apply(direction);
+    const stepSize = residualNorm / dot(direction, step);
+    for (let i = 0; i < n; i++) {
+      alpha[i] += stepSize * direction[i];
+      residual[i] -= stepSize * step[i];
+    }
+    const nextNorm = dot(residual, residual);
+    for (let i = 0; i < n; i++) {
+      direction[i] = residual[i] + (nextNorm / residualNorm) * direction[i];
+    }
+    residualNorm = nextNorm;
+  }
+
+  return alpha;
+}
+
+// Area-average `channels` interleaved values per pixel down to a smaller size
+export function downsample(
+  values: ArrayLike<number>,
+  channels: number,
+  width: number,
+  height: number,
+  targetWidth: number,
+  targetHeight: number,
+): Float32Array {
+  const result = new Float32Array(targetWidth * targetHeight * channels);
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor((ty * height) / targetHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / targetHeight));
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor((tx * width) / targetWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / targetWidth));
+      const target = (ty * targetWidth + tx) * channels;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          for (let c = 0; c < channels; c++) {
+            result[target + c] += values[(y * width + x) * channels + c];
+          }
+        }
+      }
+      const area = (y1 - y0) * (x1 - x0);
+      for (let c = 0; c < channels; c++) {
+        result[target + c] /= area;
+      }
+    }
+  }
+  return result;
+}
+
+// Bilinearly resample a single-channel image up to a larger size
+export function upsample(values: Float32Array, width: number, height: number, targetWidth: number, targetHeight: number): Float32Array {
+  const result = new Float32Array(targetWidth * targetHeight);
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const sy = Math.min(Math.max(((ty + 0.5) * height) / targetHeight - 0.5, 0), height - 1);
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(y0 + 1, height - 1);
+    const fy = sy - y0;
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const sx = Math.min(Math.max(((tx + 0.5) * width) / targetWidth - 0.5, 0), width - 1);
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(x0 + 1, width - 1);
+      const fx = sx - x0;
+      const top = values[y0 * width + x0] * (1 - fx) + values[y0 * width + x1] * fx;
+      const bottom = values[y1 * width + x0] * (1 - fx) + values[y1 * width + x1] * fx;
+      result[ty * targetWidth + tx] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return result;
+}
+
+/**
+ * Bring a coarse probability map up to an image's full resolution with a
+ * guided filter, so the mask follows the edges of the full-size image
+ * rather than the blurred outline of the upscaled coarse map.
+ */
+export function refineProbabilities(
+  rgba: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  coarse: Float32Array,
+  coarseWidth: number,
+  coarseHeight: number,
+): Float32Array {
+  const upsampled = upsample(coarse, coarseWidth, coarseHeight, width, height);
+  // Windows span about twice the upscale factor, covering the blur it introduces
+  const radius = Math.max(2, Math.round((2 * width) / coarseWidth));
+  return guidedFilterInStrips(rgba, width, height, upsampled, radius, REFINE_EPSILON);
+}
+
+/**
+ * Guided-filter a full-resolution map against the image in strips of rows,
+ * clamped to 0-1, so only one strip's colour statistics are held at a time
+ */
+function guidedFilterInStrips(
+  rgba: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  values: Float32Array,
+  radius: number,
+  epsilon: number,
+): Float32Array {
+  // The filter's two box passes read up to 2r rows beyond each output row
+  const halo = 2 * radius;
+
+  const filteredValues = new Float32Array(width * height);
+  for (let top = 0; top < height; top += GUIDE_STRIP_ROWS) {
+    const bottom = Math.min(height, top + GUIDE_STRIP_ROWS);
+    const haloTop = Math.max(0, top - halo);
+    const haloBottom = Math.min(height, bottom + halo);
+
+    const guide = new ColourGuide(
+      rgba.subarray(haloTop * width * 4, haloBottom * width * 4),
+      width,
+      haloBottom - haloTop,
+      radius,
+      epsilon,
+    );
+    const filtered = guide.filter(values.subarray(haloTop * width, haloBottom * width));
+    for (let i = (top - haloTop) * width, j = top * width; j < bottom * width; i++, j++) {
+      filteredValues[j] = Math.min(Math.max(filtered[i], 0), 1);
+    }
+  }
+  return filteredValues;
+}
+
+/**
+ * Build a trimap from foreground probabilities. Pixels between the two
+ * thresholds are unknown, as is a band of `radius` pixels around the
+ * foreground boundary, so edges are matted even when the thresholds are equal.
+ */
+export function createTrimap(
+  probabilities: Float32Array,
+  width: number,
+  height: number,
+  options: MattingOptions,
+  radius: number,
+): Uint8Array {
+  const low = Math.min(options.backgroundThreshold, options.foregroundThreshold);
+  const high = Math.max(options.backgroundThreshold, options.foregroundThreshold);
+  const cut = (low + high) / 2;
+
+  const foreground = new Float32Array(probabilities.length);
+  for (let i = 0; i < probabilities.length; i++) {
+    foreground[i] = probabilities[i] >= cut ? 1 : 0;
+  }
+  // Windows that are neither all foreground nor all background straddle the boundary
+  const coverage = boxSum(foreground, width, height, radius);
+  const area = boxSum(new Float32Array(probabilities.length).fill(1), width, height, radius);
+
+  const trimap = new Uint8Array(probabilities.length);
+  for (let i = 0; i < probabilities.length; i++) {
+    const p = probabilities[i];
+    const nearBoundary = coverage[i] > 0 && coverage[i] < area[i];
+    if (nearBoundary || (p > low && p < high)) {
+      trimap[i] = TRIMAP_UNKNOWN;
+    } else {
+      trimap[i] = p >= cut ? TRIMAP_FOREGROUND : TRIMAP_BACKGROUND;
+    }
+  }
+  return trimap;
+}
+
+/**
+ * Matte an image from its foreground probabilities: derive a trimap from
+ * the thresholds, then solve the unknown band with closed-form matting so
+ * the edge follows the image colours, e.g. around hair. Images above
+ * 512x512 are solved at that size and brought back to full resolution with
+ * a guided filter. Known trimap regions keep their value.
+ */
+export function matteAlpha(
+  rgba: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  probabilities: Float32Array,
+  options: MattingOptions,
+): Uint8Array {
+  const n = width * height;
+  const low = Math.min(options.backgroundThreshold, options.foregroundThreshold);
+  const high = Math.max(options.backgroundThreshold, options.foregroundThreshold);
+  // Uncertain band of about 2% of the short side, where segmentation edges are usually off
+  const bandRadius = Math.max(3, Math.round(Math.min(width, height) / 50));
+  const trimap = createTrimap(probabilities, width, height, options, bandRadius);
+
+  const scale = Math.min(1, Math.sqrt(MAX_SOLVER_PIXELS / n));
+  const solveWidth = Math.max(1, Math.round(width * scale));
+  const solveHeight = Math.max(1, Math.round(height * scale));
+  const resized = scale < 1;
+
+  const solveImage = resized ? downsample(rgba, 4, width, height, solveWidth, solveHeight) : rgba;
+  const solveTrimap = resized
+    ? createTrimap(downsample(probabilities, 1, width, height, solveWidth, solveHeight), solveWidth, solveHeight, options, Math.max(2, Math.round(bandRadius * scale)))
+    : trimap;
+  const solveProbabilities = resized ? downsample(probabilities, 1, width, height, solveWidth, solveHeight) : probabilities;
+
+  // Prior: known pixels from the trimap, the rest ramped across the threshold band
+  const prior = new Float32Array(solveWidth * solveHeight);
+  for (let i = 0; i < prior.length; i++) {
+    if (solveTrimap[i] !== TRIMAP_UNKNOWN) {
+      prior[i] = solveTrimap[i] / 255;
+    } else {
+      const p = solveProbabilities[i];
+      prior[i] = high > low ? Math.min(Math.max((p - low) / (high - low), 0), 1) : p >= high ? 1 : 0;
+    }
+  }
+
+  let solved = solveClosedForm(solveImage, solveWidth, solveHeight, solveTrimap, prior);
+  if (resized) {
+    const upsampled = upsample(solved, solveWidth, solveHeight, width, height);
+    solved = guidedFilterInStrips(rgba, width, height, upsampled, Math.max(1, Math.round(1 / scale)), UPSAMPLE_EPSILON);
+  }
+
+  const alpha = new Uint8Array(n);
+  for (let i = 0; i < n; i++) {
+    alpha[i] = trimap[i] === TRIMAP_UNKNOWN
+      ? Math.round(Math.min(Math.max(solved[i], 0), 1) * 255)
+      : trimap[i];
+  }
+  return alpha;
+}
+
+/**
+ * Estimate the true foreground colour of semi-transparent pixels and write
+ * it back in place, so edges don't carry the old background's colour into
+ * a new composite. A pixel is modelled as I = αF + (1 - α)B, with B the
+ * local mean colour of the background around it. F is solved from that and
+ * blended towards the local foreground mean where α is too low to trust.
+ * Only (almost) fully transparent or opaque pixels are sampled for the
+ * means, and pixels with neither nearby are left as they are.
+ */
+export function decontaminateColors(rgba: Uint8Array | Uint8ClampedArray, width: number, height: number): void {
+  const n = width * height;
+  const radius = Math.max(5, Math.round(Math.min(width, height) / 50));
+  const backgroundWeight = new Float32Array(n);
+  const foregroundWeight = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    const alpha = rgba[i * 4 + 3];
+    backgroundWeight[i] = alpha <= PURE_ALPHA_MARGIN ? 1 : 0;
+    foregroundWeight[i] = alpha >= 255 - PURE_ALPHA_MARGIN ? 1 : 0;
+  }
+  const backgroundTotal = boxSum(backgroundWeight, width, height, radius);
+  const foregroundTotal = boxSum(foregroundWeight, width, height, radius);
+
+  for (let c = 0; c < 3; c++) {
+    const channel = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+      channel[i] = rgba[i * 4 + c] / 255;
+    }
+    const backgroundMean = boxSum(multiply(channel, backgroundWeight), width, height, radius);
+    const foregroundMean = boxSum(multiply(channel, foregroundWeight), width, height, radius);
+
+    for (let i = 0; i < n; i++) {
+      const alpha = rgba[i * 4 + 3] / 255;
+      if (alpha === 0 || alpha === 1 || backgroundTotal[i] === 0 || foregroundTotal[i] === 0) {
+        continue;
+      }
+      const background = backgroundMean[i] / backgroundTotal[i];
+      const solved = Math.min(Math.max((channel[i] - (1 - alpha) * background) / alpha, 0), 1);
+      const foreground = alpha * solved + (1 - alpha) * (foregroundMean[i] / foregroundTotal[i]);
+      rgba[i * 4 + c] = Math.round(foreground * 255);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+// Helpers for adding ancillary chunks to encoded PNG files
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Build a chunk: length, type, data and CRC over type and data
+export function createPngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// Insert a chunk straight after IHDR (8-byte signature + 25-byte IHDR chunk)
+export function insertPngChunk(png: Uint8Array, chunk: Uint8Array): Uint8Array {
+  const insertAt = 33;
+  const result = new Uint8Array(png.length + chunk.length);
+  result.set(png.subarray(0, insertAt));
+  result.set(chunk, insertAt);
+  result.set(png.subarray(insertAt), insertAt + chunk.length);
+  return result;
+}
+
+// Find the data of the first chunk of a type, if present
+export function findPngChunk(png: Uint8Array, type: string): Uint8Array | undefined {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  let offset = 8;
+  while (offset + 8 <= png.length) {
+    const length = view.getUint32(offset);
+    const chunkType = String.fromCharCode(png[offset + 4], png[offset + 5], png[offset + 6], png[offset + 7]);
+    if (chunkType === type) {
+      return png.subarray(offset + 8, offset + 8 + length);
+    }
+    offset += 12 + length;
+  }
+  return undefined;
+}
+
+// iCCP data: profile name, null separator, compression method 0, zlib-compressed profile
+export function createIccpChunkData(compressedProfile: Uint8Array, name: string = "ICC Profile"): Uint8Array {
+  const data = new Uint8Array(name.length + 2 + compressedProfile.length);
+  for (let i = 0; i < name.length; i++) {
+    data[i] = name.charCodeAt(i);
+  }
+  data.set(compressedProfile, name.length + 2);
+  return data;
+}
+
+// The zlib-compressed profile inside iCCP chunk data
+export function iccpCompressedProfile(data: Uint8Array): Uint8Array {
+  const separator = data.indexOf(0);
+  return data.subarray(separator + 2);
+}
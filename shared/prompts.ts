@@ -0,0 +1,234 @@
+// Segmentation prompts, shared by the client and server pipelines. A box
+// limits segmentation to the region around the subject. Each point pulls the
+// foreground probabilities around it towards its label; the pull spreads
+// through similar colours and stops at edges, so a click on an arm reclaims
+// the arm rather than a disc around the click.
+
+import { downsample, upsample } from "./matting";
+import type { BoxPrompt, PointPrompt } from "./schema";
+
+// Points are traced on a copy no larger than this on its longest side, which
+// keeps refinement interactive on large photos
+const PROMPT_MAX_SIDE = 640;
+
+// How far a point's influence reaches, as a share of the image diagonal.
+// It holds at full strength for the first half, then fades out.
+const POINT_REACH = 0.2;
+
+// Colour differences below this count as noise rather than an edge
+const COLOUR_NOISE = 0.03;
+
+// Extra cost of stepping across a colour change, relative to stepping one
+// pixel within a flat region. Higher values stop the spread at weaker edges.
+const EDGE_COST = 200;
+
+const DIAGONAL_STEP = Math.SQRT2;
+
+// A rectangle of pixels
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Binary min-heap of pixel indices keyed by distance. Entries are never
+// updated in place; a pixel reached again by a shorter path is pushed again
+// and the stale entry skipped when popped.
+class DistanceHeap {
+  private keys: number[] = [];
+  private indices: number[] = [];
+  // Key of the entry most recently popped
+  lastKey = 0;
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  push(index: number, key: number) {
+    const { keys, indices } = this;
+    let i = keys.length;
+    keys.push(key);
+    indices.push(index);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (keys[parent] <= key) break;
+      keys[i] = keys[parent];
+      indices[i] = indices[parent];
+      i = parent;
+    }
+    keys[i] = key;
+    indices[i] = index;
+  }
+
+  // Removes the nearest entry and returns its pixel index
+  pop(): number {
+    const { keys, indices } = this;
+    const index = indices[0];
+    this.lastKey = keys[0];
+
+    const key = keys.pop()!;
+    const last = indices.pop()!;
+    const size = keys.length;
+    if (size > 0) {
+      let i = 0;
+      for (;;) {
+        let child = 2 * i + 1;
+        if (child >= size) break;
+        if (child + 1 < size && keys[child + 1] < keys[child]) child++;
+        if (keys[child] >= key) break;
+        keys[i] = keys[child];
+        indices[i] = indices[child];
+        i = child;
+      }
+      keys[i] = key;
+      indices[i] = last;
+    }
+    return index;
+  }
+}
+
+// Colour difference of two pixels, from 0 (identical) to 1 (black against white)
+function colourDistance(rgba: ArrayLike<number>, a: number, b: number): number {
+  const dr = rgba[a * 4] - rgba[b * 4];
+  const dg = rgba[a * 4 + 1] - rgba[b * 4 + 1];
+  const db = rgba[a * 4 + 2] - rgba[b * 4 + 2];
+  return Math.sqrt((dr * dr + dg * dg + db * db) / 3) / 255;
+}
+
+// How strongly each pixel is pulled by its nearest point: towards foreground
+// when positive, background when negative, with 0 where no point reaches
+function promptField(rgba: ArrayLike<number>, width: number, height: number, points: PointPrompt[]): Float32Array {
+  const reach = Math.max(1, POINT_REACH * Math.hypot(width, height));
+  // Float64 so stored distances compare exactly with the heap's keys
+  const distances = new Float64Array(width * height).fill(Infinity);
+  // 1 where the nearest point is foreground, -1 where background
+  const signs = new Int8Array(width * height);
+  const heap = new DistanceHeap();
+
+  // Multi-source Dijkstra from every point at once; later points win ties
+  for (const point of points) {
+    const x = Math.min(width - 1, Math.floor(point.x * width));
+    const y = Math.min(height - 1, Math.floor(point.y * height));
+    const i = y * width + x;
+    distances[i] = 0;
+    signs[i] = point.label === "foreground" ? 1 : -1;
+    heap.push(i, 0);
+  }
+
+  while (heap.size > 0) {
+    const i = heap.pop();
+    const distance = heap.lastKey;
+    if (distance > distances[i]) continue;
+
+    const x = i % width;
+    const y = (i - x) / width;
+    for (let dy = -1; dy <= 1; dy++) {
+      const ny = y + dy;
+      if (ny < 0 || ny >= height) continue;
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx;
+        if ((dx === 0 && dy === 0) || nx < 0 || nx >= width) continue;
+
+        const j = ny * width + nx;
+        const step = dx !== 0 && dy !== 0 ? DIAGONAL_STEP : 1;
+        const edge = Math.max(0, colourDistance(rgba, i, j) - COLOUR_NOISE);
+        const next = distance + step * (1 + EDGE_COST * edge);
+        if (next < distances[j] && next < reach) {
+          distances[j] = next;
+          signs[j] = signs[i];
+          heap.push(j, next);
+        }
+      }
+    }
+  }
+
+  const field = new Float32Array(width * height);
+  for (let i = 0; i < field.length; i++) {
+    if (distances[i] === Infinity) continue;
+    const t = Math.max(0, (2 * distances[i]) / reach - 1);
+    field[i] = signs[i] * (1 - t * t * (3 - 2 * t));
+  }
+  return field;
+}
+
+/**
+ * Constrains foreground probabilities with point prompts. Every pixel within
+ * reach of a point is claimed by the nearest one, measured along paths that
+ * are cheap through similar colours and expensive across edges, and moved
+ * towards that point's label: fully near the point, fading out further away.
+ * @param rgba - The image's RGBA pixels, row by row
+ * @param width - The image width
+ * @param height - The image height
+ * @param probabilities - Foreground probability (0-1) of every pixel
+ * @param points - Foreground and background points, in normalised coordinates
+ */
+export function applyPointPrompts(
+  rgba: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  probabilities: Float32Array,
+  points: PointPrompt[],
+): Float32Array {
+  const result = new Float32Array(probabilities);
+  if (points.length === 0) return result;
+
+  const scale = Math.min(1, PROMPT_MAX_SIDE / Math.max(width, height));
+  const fieldWidth = Math.max(1, Math.round(width * scale));
+  const fieldHeight = Math.max(1, Math.round(height * scale));
+
+  const field = scale < 1
+    ? upsample(
+      promptField(downsample(rgba, 4, width, height, fieldWidth, fieldHeight), fieldWidth, fieldHeight, points),
+      fieldWidth,
+      fieldHeight,
+      width,
+      height,
+    )
+    : promptField(rgba, width, height, points);
+
+  for (let i = 0; i < result.length; i++) {
+    const pull = field[i];
+    result[i] += pull > 0 ? (1 - result[i]) * pull : result[i] * pull;
+  }
+  return result;
+}
+
+/**
+ * The pixels a box prompt covers, at least one in each direction
+ */
+export function boxRegion(box: BoxPrompt, width: number, height: number): Region {
+  const x = Math.min(width - 1, Math.max(0, Math.floor(box.x * width)));
+  const y = Math.min(height - 1, Math.max(0, Math.floor(box.y * height)));
+  const right = Math.min(width, Math.max(x + 1, Math.ceil((box.x + box.width) * width)));
+  const bottom = Math.min(height, Math.max(y + 1, Math.ceil((box.y + box.height) * height)));
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+/**
+ * Maps points onto a region's own normalised coordinates, dropping any outside it
+ */
+export function pointsInRegion(points: PointPrompt[], region: Region, width: number, height: number): PointPrompt[] {
+  return points
+    .map((point) => ({
+      ...point,
+      x: (point.x * width - region.x) / region.width,
+      y: (point.y * height - region.y) / region.height,
+    }))
+    .filter((point) => point.x >= 0 && point.x <= 1 && point.y >= 0 && point.y <= 1);
+}
+
+/**
+ * Places a region's values (probabilities, or labels) into a map of the
+ * whole image, with everything outside the region zero
+ */
+export function pasteRegion<T extends Float32Array | Uint8Array>(values: T, region: Region, width: number, height: number): T {
+  const result = new (values.constructor as new (length: number) => T)(width * height);
+  for (let y = 0; y < region.height; y++) {
+    result.set(
+      values.subarray(y * region.width, (y + 1) * region.width),
+      (region.y + y) * width + region.x,
+    );
+  }
+  return result;
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -17,11 +17,67 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Morphological clean-up applied to the alpha mask after segmentation.
+// Island and hole sizes are percentages of the image area; 0 turns them off.
+export const maskOperations = ["none", "erode", "dilate", "open", "close"] as const;
+export type MaskOperation = typeof maskOperations[number];
+
+export const maskOpsSchema = z.object({
+  operation: z.enum(maskOperations).default("none"),
+  radius: z.number().int().min(1).max(20).default(2),
+  minIslandArea: z.number().min(0).max(10).default(0),
+  maxHoleArea: z.number().min(0).max(10).default(0),
+  featherRadius: z.number().int().min(0).max(20).default(0),
+});
+export type MaskOps = z.infer<typeof maskOpsSchema>;
+
+export const defaultMaskOps: MaskOps = maskOpsSchema.parse({});
+
+// Clicks marking a spot as subject or background, to correct a segmentation.
+// Coordinates are fractions (0-1) of the upright image's width and height,
+// so they hold at whatever resolution the image is segmented.
+export const pointLabels = ["foreground", "background"] as const;
+export type PointLabel = typeof pointLabels[number];
+
+export const pointPromptSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  label: z.enum(pointLabels),
+});
+export type PointPrompt = z.infer<typeof pointPromptSchema>;
+
+export const MAX_POINT_PROMPTS = 32;
+
+// A rectangle around the subject, in the same normalised coordinates.
+// Everything outside it is background.
+export const boxPromptSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().positive().max(1),
+  height: z.number().positive().max(1),
+});
+export type BoxPrompt = z.infer<typeof boxPromptSchema>;
+
+// Per-image hints for the segmenter, as opposed to the shared settings
+export const promptsSchema = z.object({
+  points: z.array(pointPromptSchema).max(MAX_POINT_PROMPTS).default([]),
+  box: boxPromptSchema.optional(),
+});
+export type Prompts = z.infer<typeof promptsSchema>;
+
 // Image settings table for background removal
 export const imageSettings = pgTable("image_settings", {
   id: serial("id").primaryKey(),
   model: text("model").notNull().default("u2net"),
   alphaMatting: boolean("alpha_matting").notNull().default(false),
+  decontaminateColors: boolean("decontaminate_colors").notNull().default(false),
+  refineEdges: boolean("refine_edges").notNull().default(false),
+  // Tell the people in in-browser cutouts apart, so some can be removed
+  separatePeople: boolean("separate_people").notNull().default(false),
+  // Find the body parts in in-browser cutouts, so only some are kept
+  bodyParts: boolean("body_parts").notNull().default(false),
+  maskOps: jsonb("mask_ops").$type<MaskOps>().notNull().default(defaultMaskOps),
+  tfBackend: text("tf_backend").notNull().default("auto"),
   foregroundThreshold: integer("foreground_threshold").notNull().default(50),
   backgroundThreshold: integer("background_threshold").notNull().default(50),
   backgroundType: text("background_type").notNull().default("transparent"),
@@ -31,25 +87,92 @@ export const imageSettings = pgTable("image_settings", {
   allowMove: boolean("allow_move").notNull().default(true),
 });
 
-export const insertImageSettingsSchema = createInsertSchema(imageSettings).omit({
+export const insertImageSettingsSchema = createInsertSchema(imageSettings, {
+  maskOps: maskOpsSchema,
+}).omit({
   id: true,
 });
 
 export type InsertImageSettings = z.infer<typeof insertImageSettingsSchema>;
 export type ImageSettings = typeof imageSettings.$inferSelect;
 
-// Define supported models
-export const backgroundRemovalModels = ["u2net", "u2netp", "u2net_human_seg"] as const;
+// The subset of settings that affects how an image is segmented
+export type ProcessingSettings = Pick<
+  ImageSettings,
+  "model" | "alphaMatting" | "decontaminateColors" | "refineEdges" | "maskOps" | "foregroundThreshold" | "backgroundThreshold"
+>;
+
+// Images produced by server-side processing, kept so exports can describe them
+export const processedImages = pgTable("processed_images", {
+  id: serial("id").primaryKey(),
+  filename: text("filename").notNull().unique(),
+  sourceName: text("source_name").notNull(),
+  sourceFilename: text("source_filename").notNull(),
+  settings: jsonb("settings").$type<ProcessingSettings>().notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  // Description of the source's embedded ICC profile, carried by the processed PNG
+  iccProfile: text("icc_profile"),
+  // Hints the image was segmented with, kept so it can be refined again
+  prompts: jsonb("prompts").$type<Prompts>(),
+  // File holding the model's unprompted probabilities, so refining with
+  // points doesn't segment again
+  probabilitiesFilename: text("probabilities_filename"),
+});
+
+export const insertProcessedImageSchema = createInsertSchema(processedImages).omit({
+  id: true,
+});
+
+export type InsertProcessedImage = typeof processedImages.$inferInsert;
+export type ProcessedImage = typeof processedImages.$inferSelect;
+
+// Define supported models. isnet-general-use segments the salient object of
+// any kind (products, food, furniture); u2net_human_seg only finds people.
+export const backgroundRemovalModels = ["u2net", "u2netp", "u2net_human_seg", "isnet-general-use"] as const;
 export type BackgroundRemovalModel = typeof backgroundRemovalModels[number];
 
+// TensorFlow.js backends for in-browser processing. "auto" probes them in
+// order, falling back from webgl to wasm to cpu.
+export const tfBackends = ["auto", "webgl", "wasm", "cpu"] as const;
+export type TfBackend = typeof tfBackends[number];
+
 // Define background types
 export const backgroundTypes = ["transparent", "color", "image"] as const;
 export type BackgroundType = typeof backgroundTypes[number];
 
+// Upload formats accepted by both the client and the server, with their file extensions.
+// Animated and multi-page formats are reduced to their first frame.
+export const uploadImageTypes: Record<string, string[]> = {
+  "image/jpeg": [".jpg", ".jpeg"],
+  "image/jpg": [".jpg", ".jpeg"],
+  "image/png": [".png"],
+  "image/webp": [".webp"],
+  "image/gif": [".gif"],
+  "image/tiff": [".tif", ".tiff"],
+  "image/heic": [".heic"],
+  "image/heif": [".heif"],
+};
+
+// Largest image accepted for upload, in bytes, by both the dropzone and the server
+export const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+// Largest number of images accepted by a single batch request
+export const MAX_BATCH_FILES = 50;
+
+// Formats browsers can display and decode into a canvas themselves
+export const browserImageTypes = ["image/jpeg", "image/jpg", "image/png", "image/webp", "image/gif"];
+
 // Settings validation schema for the frontend
 export const settingsSchema = z.object({
   model: z.enum(backgroundRemovalModels),
   alphaMatting: z.boolean(),
+  decontaminateColors: z.boolean().default(false),
+  refineEdges: z.boolean().default(false),
+  separatePeople: z.boolean().default(false),
+  bodyParts: z.boolean().default(false),
+  maskOps: maskOpsSchema.default(defaultMaskOps),
+  tfBackend: z.enum(tfBackends).default("auto"),
   foregroundThreshold: z.number().min(0).max(100),
   backgroundThreshold: z.number().min(0).max(100),
   backgroundType: z.enum(backgroundTypes).default("transparent"),
@@ -63,17 +186,91 @@ export const settingsSchema = z.object({
 export type Settings = z.infer<typeof settingsSchema>;
 
 // Image output format
-export const imageFormats = ["png", "jpg"] as const;
+export const imageFormats = ["png", "jpg", "webp", "avif"] as const;
 export type ImageFormat = typeof imageFormats[number];
 
+export const imageFormatMimeTypes: Record<ImageFormat, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  webp: "image/webp",
+  avif: "image/avif",
+};
+
 // Image quality
 export const imageQualities = ["high", "medium", "low"] as const;
 export type ImageQuality = typeof imageQualities[number];
 
+// Encoder quality (0-100) for each format and quality level. The scales differ
+// per codec: AVIF at 50 looks roughly like JPEG at 80. PNG is lossless, so its
+// values only drive palette quantisation below "high".
+export const formatQualityLevels: Record<ImageFormat, Record<ImageQuality, number>> = {
+  png: { high: 100, medium: 80, low: 60 },
+  jpg: { high: 92, medium: 80, low: 60 },
+  webp: { high: 90, medium: 75, low: 55 },
+  avif: { high: 70, medium: 50, low: 35 },
+};
+
+// Which metadata from the original upload is written into downloads
+export const metadataPolicies = ["strip", "copyright", "all"] as const;
+export type MetadataPolicy = typeof metadataPolicies[number];
+
+// How a source's embedded ICC profile is handled on download: converted to
+// sRGB, or kept together with the original colour values
+export const colorProfileModes = ["srgb", "preserve"] as const;
+export type ColorProfileMode = typeof colorProfileModes[number];
+
 // Download options
 export const downloadOptionsSchema = z.object({
   format: z.enum(imageFormats),
   quality: z.enum(imageQualities),
+  metadata: z.enum(metadataPolicies).default("strip"),
+  colorProfile: z.enum(colorProfileModes).default("srgb"),
 });
 
 export type DownloadOptions = z.infer<typeof downloadOptionsSchema>;
+
+// ZIP export of several processed images
+export const archiveRequestSchema = z.object({
+  files: z.array(z.object({
+    filepath: z.string(),
+    name: z.string().optional(),
+  })).min(1).max(100),
+  options: downloadOptionsSchema,
+});
+
+export type ArchiveRequest = z.infer<typeof archiveRequestSchema>;
+
+
+// Background-removal job lifecycle
+export const jobStatuses = ["queued", "running", "succeeded", "failed"] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+// Pipeline stages reported while a job runs, with the progress each one marks
+export const processingStages = ["decoded", "segmented", "matted", "composited", "encoded"] as const;
+export type ProcessingStage = typeof processingStages[number];
+
+export const stageProgress: Record<ProcessingStage, number> = {
+  decoded: 15,
+  segmented: 60,
+  matted: 75,
+  composited: 90,
+  encoded: 100,
+};
+
+export interface JobResult {
+  original: string;
+  processed: string;
+}
+
+// Job state as reported by the jobs API
+export interface JobInfo {
+  id: string;
+  status: JobStatus;
+  progress: number;
+  stage?: ProcessingStage;
+  result?: JobResult;
+  error?: string;
+}
+
+// One image of a batch as reported by the batch API: its job, or why it was refused
+export type BatchEntry = { job: JobInfo } | { error: string };
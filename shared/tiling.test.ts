@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { planTiles, segmentTiled, shouldTile, type Tile } from "./tiling";
+
+const options = { tileSize: 64, overlap: 16 };
+
+describe("planTiles", () => {
+  it("uses one tile for an image no larger than a tile", () => {
+    expect(planTiles(64, 40, options)).toEqual([{ x: 0, y: 0, width: 64, height: 40 }]);
+  });
+
+  it("covers the image with tiles sharing at least the overlap", () => {
+    const tiles = planTiles(150, 100, options);
+    const columns = [...new Set(tiles.map((tile) => tile.x))];
+    const rows = [...new Set(tiles.map((tile) => tile.y))];
+
+    expect(tiles).toHaveLength(columns.length * rows.length);
+    expect(columns[0]).toBe(0);
+    expect(rows[0]).toBe(0);
+    for (let i = 1; i < columns.length; i++) {
+      expect(columns[i - 1] + options.tileSize - columns[i]).toBeGreaterThanOrEqual(options.overlap);
+    }
+    for (const tile of tiles) {
+      expect(tile.x + tile.width).toBeLessThanOrEqual(150);
+      expect(tile.y + tile.height).toBeLessThanOrEqual(100);
+    }
+    expect(Math.max(...tiles.map((tile) => tile.x + tile.width))).toBe(150);
+    expect(Math.max(...tiles.map((tile) => tile.y + tile.height))).toBe(100);
+  });
+});
+
+describe("shouldTile", () => {
+  it("only tiles images over the megapixel limit", () => {
+    expect(shouldTile(4000, 3000)).toBe(false);
+    expect(shouldTile(4000, 3001)).toBe(true);
+  });
+});
+
+describe("segmentTiled", () => {
+  it("stitches tiles that agree without seams", async () => {
+    const result = await segmentTiled(150, 100, async (tile) => new Float32Array(tile.width * tile.height).fill(0.75), options);
+    expect(result.every((value) => Math.abs(value - 0.75) < 1e-6)).toBe(true);
+  });
+
+  it("cross-fades tiles that disagree over their overlap", async () => {
+    // Two tiles side by side: the left says background, the right foreground
+    const width = 100;
+    const tiles: Tile[] = [];
+    const result = await segmentTiled(width, 1, async (tile) => {
+      tiles.push(tile);
+      return new Float32Array(tile.width * tile.height).fill(tile.x === 0 ? 0 : 1);
+    }, options);
+
+    expect(tiles).toHaveLength(2);
+    const overlapStart = tiles[1].x;
+    const overlapEnd = tiles[0].x + tiles[0].width;
+
+    // Each tile alone outside the overlap
+    expect(result[overlapStart - 1]).toBe(0);
+    expect(result[overlapEnd]).toBe(1);
+    // A ramp across it, reaching halfway in the middle
+    for (let x = overlapStart + 1; x < overlapEnd; x++) {
+      expect(result[x]).toBeGreaterThan(result[x - 1]);
+    }
+    const middle = (overlapStart + overlapEnd - 1) / 2;
+    expect((result[Math.floor(middle)] + result[Math.ceil(middle)]) / 2).toBeCloseTo(0.5, 2);
+  });
+
+  it("rejects a tile of the wrong size", async () => {
+    await expect(segmentTiled(150, 100, async () => new Float32Array(1), options)).rejects.toThrow(/tile dimensions/);
+  });
+});
@@ -0,0 +1,103 @@
+// Tiled segmentation for very large images, shared by the client and server
+// segmenters. Each tile is segmented on its own and the probability maps are
+// stitched with feathered seams.
+
+// Images above this many megapixels are segmented in tiles
+export const TILING_MEGAPIXELS = 12;
+
+// Tile edge length and the minimum overlap between neighbouring tiles, in pixels
+const TILE_SIZE = 2048;
+const TILE_OVERLAP = 256;
+
+export interface Tile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TilingOptions {
+  tileSize: number;
+  overlap: number;
+}
+
+/**
+ * Whether an image is large enough to be segmented in tiles
+ */
+export function shouldTile(width: number, height: number, megapixels: number = TILING_MEGAPIXELS): boolean {
+  return width * height > megapixels * 1_000_000;
+}
+
+// Start offsets along one axis: evenly spread, covering it with at least `overlap` shared pixels
+function tileOffsets(length: number, tileSize: number, overlap: number): number[] {
+  if (length <= tileSize) return [0];
+  const count = Math.ceil((length - overlap) / (tileSize - overlap));
+  const stride = (length - tileSize) / (count - 1);
+  return Array.from({ length: count }, (_, i) => Math.round(i * stride));
+}
+
+/**
+ * Splits an image into overlapping tiles, row by row
+ */
+export function planTiles(
+  width: number,
+  height: number,
+  { tileSize, overlap }: TilingOptions = { tileSize: TILE_SIZE, overlap: TILE_OVERLAP },
+): Tile[] {
+  const tiles: Tile[] = [];
+  for (const y of tileOffsets(height, tileSize, overlap)) {
+    for (const x of tileOffsets(width, tileSize, overlap)) {
+      tiles.push({ x, y, width: Math.min(tileSize, width - x), height: Math.min(tileSize, height - y) });
+    }
+  }
+  return tiles;
+}
+
+// Blend weight ramping up from a tile's inner edges over the overlap, so
+// seams cross-fade instead of switching abruptly. Image borders stay at full weight.
+function edgeWeight(position: number, size: number, start: number, end: number, imageSize: number, overlap: number): number {
+  let weight = 1;
+  if (start > 0) weight = Math.min(weight, (position + 0.5) / overlap);
+  if (end < imageSize) weight = Math.min(weight, (size - position - 0.5) / overlap);
+  return weight;
+}
+
+/**
+ * Segments an image tile by tile and stitches the foreground probabilities
+ * @param width - The image width
+ * @param height - The image height
+ * @param segmentTile - Returns the probability map of one tile, row by row
+ * @param options - Tile size and overlap
+ */
+export async function segmentTiled(
+  width: number,
+  height: number,
+  segmentTile: (tile: Tile) => Promise<Float32Array>,
+  options: TilingOptions = { tileSize: TILE_SIZE, overlap: TILE_OVERLAP },
+): Promise<Float32Array> {
+  const sums = new Float32Array(width * height);
+  const weights = new Float32Array(width * height);
+
+  // One tile at a time, so only one tile's model activations are alive
+  for (const tile of planTiles(width, height, options)) {
+    const probabilities = await segmentTile(tile);
+    if (probabilities.length !== tile.width * tile.height) {
+      throw new Error("Tile segmentation does not match tile dimensions");
+    }
+
+    for (let ty = 0; ty < tile.height; ty++) {
+      const wy = edgeWeight(ty, tile.height, tile.y, tile.y + tile.height, height, options.overlap);
+      const row = (tile.y + ty) * width + tile.x;
+      for (let tx = 0; tx < tile.width; tx++) {
+        const weight = wy * edgeWeight(tx, tile.width, tile.x, tile.x + tile.width, width, options.overlap);
+        sums[row + tx] += probabilities[ty * tile.width + tx] * weight;
+        weights[row + tx] += weight;
+      }
+    }
+  }
+
+  for (let i = 0; i < sums.length; i++) {
+    sums[i] = weights[i] > 0 ? sums[i] / weights[i] : 0;
+  }
+  return sums;
+}
@@ -29,6 +29,10 @@ export default defineConfig({
     },
   },
   root: path.resolve(__dirname, "client"),
+  // The segmentation worker is a module worker; its dependencies split into chunks
+  worker: {
+    format: "es",
+  },
   build: {
     outDir: path.resolve(__dirname, "dist/public"),
     emptyOutDir: true,